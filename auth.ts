@@ -0,0 +1,529 @@
+import { Req, Middleware, ResponseHelper } from "./types.ts";
+import { fromBase64Url, toBase64Url } from "./cookie.ts";
+
+/**
+ * Claims of a JSON Web Token. Registered claims are typed, others are available by name
+ */
+export interface JwtClaims {
+  iss?: string;
+  sub?: string;
+  aud?: string | string[];
+  exp?: number;
+  nbf?: number;
+  iat?: number;
+  jti?: string;
+  /** Space separated OAuth scopes */
+  scope?: string;
+  [claim: string]: unknown;
+}
+
+/**
+ * The authenticated client, available as `req.auth` once an auth middleware accepted the request
+ */
+export interface AuthInfo<C extends JwtClaims = JwtClaims> {
+  /** The scheme the client authenticated with */
+  scheme: "Bearer" | "Basic";
+  /** User or client identifier: the `sub` claim, the user name or what a bearer verifier returned */
+  subject?: string;
+  /** Verified token claims. Empty for Basic auth and API keys unless a verifier returns claims */
+  claims: C;
+  /** Roles, used by `authorize()` */
+  roles: string[];
+  /** Scopes, used by `authorize()` */
+  scopes: string[];
+}
+
+/** Supported JWT signature algorithms */
+export type JwtAlgorithm = "HS256" | "RS256" | "ES256";
+
+/** A JSON Web Key Set */
+export interface JsonWebKeySet {
+  keys: (JsonWebKey & { kid?: string })[];
+}
+
+/**
+ * Error raised when a JWT is malformed, has an invalid signature or fails a claim check
+ */
+export class JwtError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "JwtError";
+  }
+}
+
+/**
+ * Options for verifying JSON Web Tokens
+ */
+export interface JwtVerifyOptions {
+  /** Secrets for HS256. The first one signs, all of them verify */
+  secret?: string | string[];
+  /** Public key for RS256 or ES256, as a PEM encoded SPKI key, a JWK or a CryptoKey */
+  publicKey?: string | JsonWebKey | CryptoKey;
+  /**
+   * Key set for RS256 and ES256, as the path of a JSON file or a function returning it, e.g. fetching
+   * a JWKS endpoint. It is cached for `jwksTtl` and reloaded early when a token names an unknown `kid`
+   */
+  jwks?: string | (() => JsonWebKeySet | Promise<JsonWebKeySet>);
+  /** How long a loaded key set is used, in milliseconds (default: 10 minutes) */
+  jwksTtl?: number;
+  /** Accepted algorithms (default: those the configured keys support) */
+  algorithms?: JwtAlgorithm[];
+  /** Accepted issuers */
+  issuer?: string | string[];
+  /** Accepted audiences, the token has to name at least one */
+  audience?: string | string[];
+  /** Seconds of clock difference tolerated for `exp` and `nbf` (default: 0) */
+  clockTolerance?: number;
+}
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+/**
+ * Compares two strings in constant time, regardless of where they differ or how long they are
+ */
+export async function timingSafeEqual(a: string, b: string): Promise<boolean> {
+  // Comparing digests keeps the time independent of the lengths too
+  const [left, right] = await Promise.all([a, b].map((value) => crypto.subtle.digest("SHA-256", encoder.encode(value))));
+  const x = new Uint8Array(left);
+  const y = new Uint8Array(right);
+  let difference = 0;
+  for (let i = 0; i < x.length; i++) difference |= x[i] ^ y[i];
+  return difference === 0;
+}
+
+const ALGORITHM_PARAMS = {
+  HS256: { name: "HMAC", hash: "SHA-256" },
+  RS256: { name: "RSASSA-PKCS1-v1_5", hash: "SHA-256" },
+  ES256: { name: "ECDSA", namedCurve: "P-256" },
+} as const;
+
+const SIGN_PARAMS = {
+  HS256: "HMAC",
+  RS256: "RSASSA-PKCS1-v1_5",
+  ES256: { name: "ECDSA", hash: "SHA-256" },
+} as const;
+
+// Imported keys by their source, so every PEM, JWK and secret is imported once
+const importedKeys = new Map<string, Promise<CryptoKey>>();
+
+function importKey(algorithm: JwtAlgorithm, format: "raw" | "spki" | "jwk", source: string): Promise<CryptoKey> {
+  const cacheKey = `${algorithm}:${format}:${source}`;
+  let key = importedKeys.get(cacheKey);
+  if (!key) {
+    const usages: KeyUsage[] = algorithm === "HS256" ? ["sign", "verify"] : ["verify"];
+    key = format === "jwk"
+      ? crypto.subtle.importKey("jwk", JSON.parse(source), ALGORITHM_PARAMS[algorithm], false, usages)
+      : format === "spki"
+      ? crypto.subtle.importKey("spki", pemToDer(source), ALGORITHM_PARAMS[algorithm], false, usages)
+      : crypto.subtle.importKey("raw", encoder.encode(source), ALGORITHM_PARAMS[algorithm], false, usages);
+    // Failed imports are not cached, the same source may be valid for another algorithm
+    key.catch(() => importedKeys.delete(cacheKey));
+    importedKeys.set(cacheKey, key);
+  }
+  return key;
+}
+
+function pemToDer(pem: string) {
+  const base64 = pem.replace(/-----(BEGIN|END) [A-Z ]+-----/g, "").replace(/\s+/g, "");
+  return Uint8Array.from(atob(base64), (char) => char.charCodeAt(0));
+}
+
+// The algorithm a public key can verify, so a key is never used with an algorithm of another type
+function algorithmOfJwk(jwk: JsonWebKey): JwtAlgorithm | null {
+  if (jwk.kty === "RSA") return "RS256";
+  if (jwk.kty === "EC" && jwk.crv === "P-256") return "ES256";
+  return null;
+}
+
+function algorithmOfCryptoKey(key: CryptoKey): JwtAlgorithm | null {
+  const algorithm = key.algorithm as { name: string; namedCurve?: string };
+  if (algorithm.name === "RSASSA-PKCS1-v1_5") return "RS256";
+  if (algorithm.name === "ECDSA" && algorithm.namedCurve === "P-256") return "ES256";
+  if (algorithm.name === "HMAC") return "HS256";
+  return null;
+}
+
+type KeyResolver = (algorithm: JwtAlgorithm, kid: string | undefined) => Promise<CryptoKey[]>;
+
+function keyResolver(options: JwtVerifyOptions): { resolve: KeyResolver; algorithms: JwtAlgorithm[] } {
+  const { secret, publicKey, jwks, jwksTtl = 10 * 60 * 1000 } = options;
+  const secrets = secret === undefined ? [] : Array.isArray(secret) ? secret : [secret];
+  const supported = new Set<JwtAlgorithm>();
+  if (secrets.length) supported.add("HS256");
+  if (typeof publicKey === "string" || jwks) ["RS256", "ES256"].forEach((alg) => supported.add(alg as JwtAlgorithm));
+  if (publicKey && typeof publicKey === "object") {
+    const algorithm = publicKey instanceof CryptoKey ? algorithmOfCryptoKey(publicKey) : algorithmOfJwk(publicKey);
+    if (!algorithm) throw new Error("Unsupported public key type");
+    supported.add(algorithm);
+  }
+  if (!supported.size) throw new Error("jwt() needs a secret, a publicKey or jwks");
+
+  let keySet: JsonWebKeySet | null = null;
+  let loadedAt = 0;
+  let loading: Promise<JsonWebKeySet> | null = null;
+  const loadKeySet = (force: boolean): Promise<JsonWebKeySet> => {
+    const age = Date.now() - loadedAt;
+    // Unknown key ids reload the set, but at most every 30 seconds
+    if (keySet && age < jwksTtl && (!force || age < 30_000)) return Promise.resolve(keySet);
+    loading ??= (async () => {
+      try {
+        const loaded = typeof jwks === "string" ? JSON.parse(await Deno.readTextFile(jwks)) : await jwks!();
+        keySet = loaded as JsonWebKeySet;
+        loadedAt = Date.now();
+        return keySet;
+      } finally {
+        loading = null;
+      }
+    })();
+    return loading;
+  };
+
+  const resolve: KeyResolver = async (algorithm, kid) => {
+    if (algorithm === "HS256") return Promise.all(secrets.map((value) => importKey("HS256", "raw", value)));
+
+    const keys: Promise<CryptoKey>[] = [];
+    if (publicKey instanceof CryptoKey) {
+      if (algorithmOfCryptoKey(publicKey) === algorithm) keys.push(Promise.resolve(publicKey));
+    } else if (typeof publicKey === "string") {
+      keys.push(importKey(algorithm, "spki", publicKey));
+    } else if (publicKey && algorithmOfJwk(publicKey) === algorithm) {
+      keys.push(importKey(algorithm, "jwk", JSON.stringify(publicKey)));
+    }
+
+    if (jwks) {
+      const matching = (set: JsonWebKeySet) =>
+        set.keys.filter((jwk) =>
+          (kid === undefined || jwk.kid === kid) && algorithmOfJwk(jwk) === algorithm &&
+          (jwk.alg === undefined || jwk.alg === algorithm) && (jwk.use === undefined || jwk.use === "sig")
+        );
+      let found = matching(await loadKeySet(false));
+      if (!found.length && kid !== undefined) found = matching(await loadKeySet(true));
+      keys.push(...found.map((jwk) => importKey(algorithm, "jwk", JSON.stringify(jwk))));
+    }
+
+    // A PEM key of the other type fails to import, which only means it cannot verify this token
+    const settled = await Promise.allSettled(keys);
+    return settled.flatMap((result) => result.status === "fulfilled" ? [result.value] : []);
+  };
+
+  return { resolve, algorithms: options.algorithms ?? [...supported] };
+}
+
+function decodeSegment<T>(segment: string): T {
+  try {
+    const bytes = fromBase64Url(segment);
+    if (!bytes) throw new Error();
+    const value = JSON.parse(decoder.decode(bytes));
+    if (typeof value !== "object" || value === null || Array.isArray(value)) throw new Error();
+    return value;
+  } catch {
+    throw new JwtError("Malformed token");
+  }
+}
+
+function toList(value: string | string[] | undefined): string[] {
+  return value === undefined ? [] : Array.isArray(value) ? value : [value];
+}
+
+async function verifyWith<C extends JwtClaims>(
+  token: string,
+  options: JwtVerifyOptions,
+  resolve: KeyResolver,
+  algorithms: JwtAlgorithm[],
+): Promise<C> {
+  const parts = token.split(".");
+  if (parts.length !== 3) throw new JwtError("Malformed token");
+  const header = decodeSegment<{ alg?: string; kid?: string; crit?: unknown }>(parts[0]);
+  const claims = decodeSegment<C>(parts[1]);
+  const signature = fromBase64Url(parts[2]);
+  if (!signature) throw new JwtError("Malformed token");
+
+  const algorithm = header.alg as JwtAlgorithm;
+  if (!algorithms.includes(algorithm)) throw new JwtError(`Algorithm ${header.alg} is not accepted`);
+  if (header.crit !== undefined) throw new JwtError("Unsupported critical header");
+
+  const data = encoder.encode(`${parts[0]}.${parts[1]}`);
+  let valid = false;
+  for (const key of await resolve(algorithm, header.kid)) {
+    // crypto.subtle.verify compares in constant time
+    if (await crypto.subtle.verify(SIGN_PARAMS[algorithm], key, signature, data)) {
+      valid = true;
+      break;
+    }
+  }
+  if (!valid) throw new JwtError("Invalid signature");
+
+  const now = Math.floor(Date.now() / 1000);
+  const tolerance = options.clockTolerance ?? 0;
+  if (claims.exp !== undefined && (typeof claims.exp !== "number" || now - tolerance >= claims.exp)) {
+    throw new JwtError("Token expired");
+  }
+  if (claims.nbf !== undefined && (typeof claims.nbf !== "number" || now + tolerance < claims.nbf)) {
+    throw new JwtError("Token not yet valid");
+  }
+  const issuers = toList(options.issuer);
+  if (issuers.length && !issuers.includes(claims.iss as string)) throw new JwtError("Invalid issuer");
+  const audiences = toList(options.audience);
+  if (audiences.length && !toList(claims.aud).some((audience) => audiences.includes(audience))) {
+    throw new JwtError("Invalid audience");
+  }
+  return claims;
+}
+
+/**
+ * Verifies a JSON Web Token and its `exp`, `nbf`, `iss` and `aud` claims
+ * @param token - The compact serialized token
+ * @param options - Keys and claim requirements
+ * @returns The verified claims
+ * @throws {JwtError} If the token is invalid
+ */
+export function verifyJwt<C extends JwtClaims = JwtClaims>(token: string, options: JwtVerifyOptions): Promise<C> {
+  const { resolve, algorithms } = keyResolver(options);
+  return verifyWith<C>(token, options, resolve, algorithms);
+}
+
+/**
+ * Creates a signed JSON Web Token
+ * @param claims - The claims. `iat` is added, and `exp` when `expiresIn` is given
+ * @param key - An HS256 secret, or a private CryptoKey for RS256 or ES256
+ * @param options - Key id and lifetime in seconds
+ */
+export async function signJwt(
+  claims: JwtClaims,
+  key: string | CryptoKey,
+  options: { kid?: string; expiresIn?: number } = {},
+): Promise<string> {
+  const algorithm = typeof key === "string" ? "HS256" : algorithmOfCryptoKey(key);
+  if (!algorithm) throw new Error("Unsupported signing key type");
+
+  const now = Math.floor(Date.now() / 1000);
+  const header = { alg: algorithm, typ: "JWT", ...(options.kid ? { kid: options.kid } : {}) };
+  const payload = { iat: now, ...claims, ...(options.expiresIn !== undefined ? { exp: now + options.expiresIn } : {}) };
+  const data = [header, payload].map((part) => toBase64Url(encoder.encode(JSON.stringify(part)))).join(".");
+
+  const signingKey = typeof key === "string" ? await importKey("HS256", "raw", key) : key;
+  const signature = await crypto.subtle.sign(SIGN_PARAMS[algorithm], signingKey, encoder.encode(data));
+  return `${data}.${toBase64Url(new Uint8Array(signature))}`;
+}
+
+function quote(value: string): string {
+  return `"${value.replace(/["\\]/g, "\\$&")}"`;
+}
+
+function challenge(scheme: string, params: Record<string, string | undefined>): string {
+  const rendered = Object.entries(params)
+    .filter(([, value]) => value !== undefined)
+    .map(([name, value]) => `${name}=${quote(value!)}`);
+  return rendered.length ? `${scheme} ${rendered.join(", ")}` : scheme;
+}
+
+// Reads the credentials of a scheme from the Authorization header
+function credentials(req: Request, scheme: string): string | null {
+  const header = req.headers.get("authorization");
+  if (!header) return null;
+  const separator = header.indexOf(" ");
+  if (separator === -1 || header.slice(0, separator).toLowerCase() !== scheme.toLowerCase()) return null;
+  return header.slice(separator + 1).trim() || null;
+}
+
+function unauthorized(message: string, wwwAuthenticate: string): Response {
+  return ResponseHelper.problem(401, message, { headers: { "WWW-Authenticate": wwwAuthenticate } });
+}
+
+function scopesOf(claims: JwtClaims): string[] {
+  if (typeof claims.scope === "string") return claims.scope.split(" ").filter(Boolean);
+  return Array.isArray(claims.scp) ? claims.scp.map(String) : [];
+}
+
+/**
+ * Options for the JWT middleware
+ */
+export interface JwtOptions<C extends JwtClaims = JwtClaims> extends JwtVerifyOptions {
+  /** Reads the token (default: the `Authorization: Bearer` header) */
+  getToken?: (req: Req) => string | null | undefined;
+  /** Let requests without a token through, unauthenticated (default: false). Invalid tokens are still rejected */
+  optional?: boolean;
+  /** Realm named in the `WWW-Authenticate` challenge */
+  realm?: string;
+  /** Claim holding the roles (default: "roles") */
+  rolesClaim?: string;
+  /** Additional checks, e.g. for revoked tokens. Returning false rejects the token */
+  validate?: (claims: C, req: Req) => boolean | Promise<boolean>;
+}
+
+/**
+ * Middleware to authenticate requests with JSON Web Tokens signed with HS256, RS256 or ES256.
+ * The verified claims are available as `req.auth.claims`, scopes from `scope`/`scp` and roles from `rolesClaim`.
+ * @param options - Keys, claim requirements and token lookup
+ * @returns The middleware function
+ * @throws If no key is configured
+ */
+export function jwt<C extends JwtClaims = JwtClaims>(options: JwtOptions<C>): Middleware {
+  const { getToken = (req: Req) => credentials(req, "Bearer"), optional = false, realm, rolesClaim = "roles", validate } = options;
+  const { resolve, algorithms } = keyResolver(options);
+
+  return async function jwt(req: Req, next) {
+    const token = getToken(req);
+    if (!token) {
+      return optional ? next() : unauthorized("Authentication required", challenge("Bearer", { realm }));
+    }
+
+    let claims: C;
+    try {
+      claims = await verifyWith<C>(token, options, resolve, algorithms);
+      if (validate && !(await validate(claims, req))) throw new JwtError("Token rejected");
+    } catch (error) {
+      if (!(error instanceof JwtError)) throw error;
+      return unauthorized(
+        error.message,
+        challenge("Bearer", { realm, error: "invalid_token", error_description: error.message }),
+      );
+    }
+
+    const roles = claims[rolesClaim];
+    req.auth = {
+      scheme: "Bearer",
+      subject: claims.sub,
+      claims,
+      roles: Array.isArray(roles) ? roles.map(String) : [],
+      scopes: scopesOf(claims),
+    };
+    return next();
+  };
+}
+
+/**
+ * Options for the bearer token middleware
+ */
+export interface BearerAuthOptions {
+  /** Accepted tokens or API keys */
+  tokens?: string[];
+  /**
+   * Checks a token. Return false to reject it, true to accept it, or details of the client
+   * to accept it with a subject, roles or scopes
+   */
+  verify?: (token: string, req: Req) =>
+    | boolean
+    | Partial<Omit<AuthInfo, "scheme">>
+    | Promise<boolean | Partial<Omit<AuthInfo, "scheme">>>;
+  /** Read the token from this header instead of `Authorization: Bearer`, e.g. "X-API-Key" */
+  header?: string;
+  /** Realm named in the `WWW-Authenticate` challenge */
+  realm?: string;
+}
+
+/**
+ * Middleware to authenticate requests with opaque bearer tokens or API keys, compared in constant time.
+ * The client is available as `req.auth`.
+ * @param options - The accepted tokens or a verifier
+ * @returns The middleware function
+ */
+export function bearerAuth(options: BearerAuthOptions): Middleware {
+  const { tokens = [], verify, header, realm } = options;
+  if (!tokens.length && !verify) throw new Error("bearerAuth() needs tokens or a verify function");
+
+  return async function bearerAuth(req: Req, next) {
+    const token = header ? req.headers.get(header)?.trim() : credentials(req, "Bearer");
+    if (!token) return unauthorized("Authentication required", challenge("Bearer", { realm }));
+
+    // Every token is compared, so the time taken does not reveal which one matched
+    const matches = await Promise.all(tokens.map((candidate) => timingSafeEqual(token, candidate)));
+    let result: boolean | Partial<Omit<AuthInfo, "scheme">> = matches.includes(true);
+    if (!result && verify) result = await verify(token, req);
+    if (!result) {
+      return unauthorized(
+        "Invalid token",
+        challenge("Bearer", { realm, error: "invalid_token", error_description: "Invalid token" }),
+      );
+    }
+
+    const details = typeof result === "object" ? result : {};
+    req.auth = { scheme: "Bearer", claims: {}, roles: [], scopes: [], ...details };
+    return next();
+  };
+}
+
+/**
+ * Options for the Basic auth middleware
+ */
+export interface BasicAuthOptions {
+  /** Accepted user names and passwords */
+  users?: Record<string, string>;
+  /**
+   * Checks credentials, e.g. against password hashes. Return false to reject them, true to accept
+   * them, or roles and scopes of the user
+   */
+  verify?: (username: string, password: string, req: Req) =>
+    | boolean
+    | Pick<Partial<AuthInfo>, "roles" | "scopes">
+    | Promise<boolean | Pick<Partial<AuthInfo>, "roles" | "scopes">>;
+  /** Realm named in the `WWW-Authenticate` challenge (default: "Restricted") */
+  realm?: string;
+}
+
+/**
+ * Middleware for HTTP Basic authentication. Passwords in `users` are compared in constant time.
+ * The user name is available as `req.auth.subject`.
+ * @param options - The accepted users or a verifier
+ * @returns The middleware function
+ */
+export function basicAuth(options: BasicAuthOptions): Middleware {
+  const { users = {}, verify, realm = "Restricted" } = options;
+  if (!Object.keys(users).length && !verify) throw new Error("basicAuth() needs users or a verify function");
+  const wwwAuthenticate = challenge("Basic", { realm, charset: "UTF-8" });
+
+  return async function basicAuth(req: Req, next) {
+    const encoded = credentials(req, "Basic");
+    let decoded: string | null = null;
+    try {
+      decoded = encoded ? decoder.decode(Uint8Array.from(atob(encoded), (char) => char.charCodeAt(0))) : null;
+    } catch {
+      // Invalid base64 is treated like missing credentials
+    }
+    const separator = decoded?.indexOf(":") ?? -1;
+    if (!decoded || separator === -1) return unauthorized("Authentication required", wwwAuthenticate);
+
+    const username = decoded.slice(0, separator);
+    const password = decoded.slice(separator + 1);
+    // Every user name and password is compared, so the time taken does not reveal which user names exist
+    const matches = await Promise.all(
+      Object.entries(users).map(async ([name, secret]) => {
+        const [user, pass] = await Promise.all([timingSafeEqual(username, name), timingSafeEqual(password, secret)]);
+        return user && pass;
+      }),
+    );
+    let result: boolean | Pick<Partial<AuthInfo>, "roles" | "scopes"> = matches.includes(true);
+    if (!result && verify) result = await verify(username, password, req);
+    if (!result) return unauthorized("Invalid credentials", wwwAuthenticate);
+
+    const details = typeof result === "object" ? result : {};
+    req.auth = { scheme: "Basic", subject: username, claims: {}, roles: [], scopes: [], ...details };
+    return next();
+  };
+}
+
+/**
+ * Guard for `RouteConfig.middleware` requiring an authenticated client with all of the given roles and scopes.
+ * Answers 401 without `req.auth` and 403 when a role or scope is missing.
+ * @param requirements - The required roles and scopes
+ * @returns The middleware function
+ */
+export function authorize(requirements: { roles?: string[]; scopes?: string[] } = {}): Middleware {
+  const { roles = [], scopes = [] } = requirements;
+
+  return function authorize(req: Req, next) {
+    if (!req.auth) return unauthorized("Authentication required", "Bearer");
+
+    if (!scopes.every((scope) => req.auth!.scopes.includes(scope))) {
+      const headers = req.auth.scheme === "Bearer"
+        ? { "WWW-Authenticate": challenge("Bearer", { error: "insufficient_scope", scope: scopes.join(" ") }) }
+        : undefined;
+      return ResponseHelper.problem(403, "Insufficient scope", { headers });
+    }
+    if (!roles.every((role) => req.auth!.roles.includes(role))) {
+      return ResponseHelper.problem(403, "Missing required role");
+    }
+    return next();
+  };
+}
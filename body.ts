@@ -0,0 +1,96 @@
+import { HttpError } from "./errors.ts";
+
+/**
+ * A body size limit, either one size for every request or sizes per content type.
+ * Content type keys can be exact (`"application/json"`), a type wildcard (`"image/*"`) or `"*"`.
+ */
+export type BodySizeLimit = number | Record<string, number>;
+
+/**
+ * Error raised while reading a request body that is too large or too slow
+ */
+export class BodyReadError extends HttpError {
+  constructor(message: string, status: number) {
+    super(status, message);
+    this.name = "BodyReadError";
+  }
+}
+
+/**
+ * The limits applied to a request body while it is read. The fields can be tightened
+ * or relaxed until the first chunk is read, e.g. once the matching route is known.
+ */
+export interface BodyLimiter {
+  /** Maximum number of bytes */
+  maxSize: number;
+  /** Maximum time in milliseconds to read the whole body */
+  timeout?: number;
+  /** The error that stopped reading, if any */
+  error?: BodyReadError;
+}
+
+/**
+ * Resolves the size limit for a content type
+ * @param limit - The configured limit
+ * @param contentType - The content type of the request
+ * @returns The limit in bytes, or undefined when no entry applies
+ */
+export function resolveBodySize(limit: BodySizeLimit | undefined, contentType: string): number | undefined {
+  if (typeof limit !== "object") return limit;
+
+  const mediaType = contentType.split(";")[0].trim().toLowerCase();
+  return limit[mediaType] ?? limit[`${mediaType.split("/")[0]}/*`] ?? limit["*"];
+}
+
+/**
+ * Wraps a body stream so that reading fails with 413 once the limit is passed,
+ * or with 408 when the body takes longer than the timeout to arrive.
+ */
+export function limitBody(stream: ReadableStream<Uint8Array>, limiter: BodyLimiter): ReadableStream<Uint8Array> {
+  const reader = stream.getReader();
+  let received = 0;
+  let deadline: number | null = null;
+
+  const fail = (controller: ReadableStreamDefaultController<Uint8Array>, error: BodyReadError) => {
+    limiter.error = error;
+    reader.cancel(error).catch(() => {});
+    controller.error(error);
+  };
+
+  return new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      if (limiter.timeout && deadline === null) {
+        deadline = Date.now() + limiter.timeout;
+      }
+
+      let timer: ReturnType<typeof setTimeout> | undefined;
+      const timedOut = new Promise<"timeout">((resolve) => {
+        if (deadline !== null) timer = setTimeout(() => resolve("timeout"), Math.max(deadline - Date.now(), 0));
+      });
+
+      try {
+        const result = await Promise.race([reader.read(), timedOut]);
+        if (result === "timeout") {
+          fail(controller, new BodyReadError("Request body timeout", 408));
+          return;
+        }
+        if (result.done) {
+          controller.close();
+          return;
+        }
+
+        received += result.value.length;
+        if (received > limiter.maxSize) {
+          fail(controller, new BodyReadError("Request entity too large", 413));
+          return;
+        }
+        controller.enqueue(result.value);
+      } finally {
+        clearTimeout(timer);
+      }
+    },
+    cancel(reason) {
+      return reader.cancel(reason);
+    },
+  });
+}
@@ -0,0 +1,277 @@
+/**
+ * Attributes of a `Set-Cookie` header
+ */
+export interface CookieOptions {
+  /** Domain the cookie is sent to */
+  domain?: string;
+  /** Path the cookie is sent to (default: "/") */
+  path?: string;
+  /** Absolute expiry date */
+  expires?: Date;
+  /** Lifetime in seconds, takes precedence over `expires` in browsers */
+  maxAge?: number;
+  /** Hide the cookie from JavaScript */
+  httpOnly?: boolean;
+  /** Only send the cookie over HTTPS */
+  secure?: boolean;
+  /** Cross-site sending policy */
+  sameSite?: "Strict" | "Lax" | "None";
+  /** Store the cookie in partitioned (CHIPS) storage. Implies `secure` */
+  partitioned?: boolean;
+  /** Retention priority hint */
+  priority?: "Low" | "Medium" | "High";
+}
+
+/**
+ * One or more secrets. The first one signs or encrypts new values,
+ * all of them are accepted when reading, which allows rotating keys.
+ */
+export type CookieSecrets = string | string[];
+
+const COOKIE_NAME = /^[!#$%&'*+\-.^_`|~0-9A-Za-z]+$/;
+
+/**
+ * Parses a `Cookie` header
+ * @param header - The header value
+ * @returns The cookies by name. The first occurrence of a name wins
+ */
+export function parseCookies(header: string | null): Record<string, string> {
+  const cookies: Record<string, string> = {};
+  if (!header) return cookies;
+
+  for (const pair of header.split(";")) {
+    const separator = pair.indexOf("=");
+    if (separator === -1) continue;
+
+    const name = pair.slice(0, separator).trim();
+    if (!name || name in cookies) continue;
+
+    let value = pair.slice(separator + 1).trim();
+    if (value.startsWith('"') && value.endsWith('"')) value = value.slice(1, -1);
+    try {
+      cookies[name] = decodeURIComponent(value);
+    } catch {
+      cookies[name] = value;
+    }
+  }
+  return cookies;
+}
+
+/**
+ * Serializes a cookie into a `Set-Cookie` header value
+ * @throws If the name is invalid or the attributes contradict each other
+ */
+export function serializeCookie(name: string, value: string, options: CookieOptions = {}): string {
+  if (!COOKIE_NAME.test(name)) {
+    throw new Error(`Invalid cookie name "${name}"`);
+  }
+  if (options.sameSite === "None" && options.secure === false) {
+    throw new Error(`Cookie "${name}" with SameSite=None must be secure`);
+  }
+
+  const parts = [`${name}=${encodeURIComponent(value)}`];
+  if (options.domain) parts.push(`Domain=${options.domain}`);
+  parts.push(`Path=${options.path ?? "/"}`);
+  if (options.expires) parts.push(`Expires=${options.expires.toUTCString()}`);
+  if (options.maxAge !== undefined) parts.push(`Max-Age=${Math.floor(options.maxAge)}`);
+  if (options.httpOnly) parts.push("HttpOnly");
+  if (options.secure || options.partitioned || options.sameSite === "None") parts.push("Secure");
+  if (options.sameSite) parts.push(`SameSite=${options.sameSite}`);
+  if (options.partitioned) parts.push("Partitioned");
+  if (options.priority) parts.push(`Priority=${options.priority}`);
+  return parts.join("; ");
+}
+
+function headersOf(target: Headers | Response): Headers {
+  return target instanceof Response ? target.headers : target;
+}
+
+/**
+ * Adds a `Set-Cookie` header
+ * @param target - The response, or its headers
+ */
+export function setCookie(target: Headers | Response, name: string, value: string, options: CookieOptions = {}): void {
+  headersOf(target).append("Set-Cookie", serializeCookie(name, value, options));
+}
+
+/**
+ * Adds a `Set-Cookie` header that removes the cookie.
+ * The path and domain must match the ones the cookie was set with.
+ */
+export function deleteCookie(
+  target: Headers | Response,
+  name: string,
+  options: Pick<CookieOptions, "domain" | "path" | "secure" | "sameSite" | "partitioned"> = {},
+): void {
+  setCookie(target, name, "", { ...options, expires: new Date(0), maxAge: 0 });
+}
+
+function toList(secrets: CookieSecrets): string[] {
+  const list = Array.isArray(secrets) ? secrets : [secrets];
+  if (list.length === 0) throw new Error("At least one cookie secret is required");
+  return list;
+}
+
+/**
+ * Encodes bytes as unpadded base64url
+ */
+export function toBase64Url(bytes: Uint8Array): string {
+  return btoa(String.fromCharCode(...bytes)).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+}
+
+/**
+ * Generates a random, URL and cookie safe token, e.g. for session IDs
+ * @param bytes - Number of random bytes (default: 24)
+ */
+export function randomToken(bytes = 24): string {
+  return toBase64Url(crypto.getRandomValues(new Uint8Array(bytes)));
+}
+
+/**
+ * Decodes unpadded base64url
+ * @returns The bytes, or null when the value is not base64url
+ */
+export function fromBase64Url(value: string) {
+  if (!/^[\w-]*$/.test(value)) return null;
+  try {
+    const binary = atob(value.replace(/-/g, "+").replace(/_/g, "/"));
+    const bytes = new Uint8Array(binary.length);
+    for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+    return bytes;
+  } catch {
+    return null;
+  }
+}
+
+const encoder = new TextEncoder();
+const hmacKeys = new Map<string, Promise<CryptoKey>>();
+const aesKeys = new Map<string, Promise<CryptoKey>>();
+
+function hmacKey(secret: string): Promise<CryptoKey> {
+  let key = hmacKeys.get(secret);
+  if (!key) {
+    key = crypto.subtle.importKey("raw", encoder.encode(secret), { name: "HMAC", hash: "SHA-256" }, false, ["sign", "verify"]);
+    hmacKeys.set(secret, key);
+  }
+  return key;
+}
+
+function aesKey(secret: string): Promise<CryptoKey> {
+  let key = aesKeys.get(secret);
+  if (!key) {
+    key = crypto.subtle.digest("SHA-256", encoder.encode(secret))
+      .then((hash) => crypto.subtle.importKey("raw", hash, "AES-GCM", false, ["encrypt", "decrypt"]));
+    aesKeys.set(secret, key);
+  }
+  return key;
+}
+
+/**
+ * Appends an HMAC-SHA256 signature to a value
+ * @returns The value and its signature, separated by a dot
+ */
+export async function signValue(value: string, secrets: CookieSecrets): Promise<string> {
+  const signature = await crypto.subtle.sign("HMAC", await hmacKey(toList(secrets)[0]), encoder.encode(value));
+  return `${value}.${toBase64Url(new Uint8Array(signature))}`;
+}
+
+/**
+ * Verifies a value produced by `signValue` against every secret
+ * @returns The original value, or null when the signature does not match
+ */
+export async function unsignValue(signed: string, secrets: CookieSecrets): Promise<string | null> {
+  const separator = signed.lastIndexOf(".");
+  if (separator === -1) return null;
+
+  const value = signed.slice(0, separator);
+  const signature = fromBase64Url(signed.slice(separator + 1));
+  if (!signature) return null;
+
+  for (const secret of toList(secrets)) {
+    // crypto.subtle.verify compares in constant time
+    if (await crypto.subtle.verify("HMAC", await hmacKey(secret), signature, encoder.encode(value))) {
+      return value;
+    }
+  }
+  return null;
+}
+
+/**
+ * Encrypts a value with AES-GCM
+ * @returns The IV and ciphertext, base64url encoded
+ */
+export async function encryptValue(value: string, secrets: CookieSecrets): Promise<string> {
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  const ciphertext = await crypto.subtle.encrypt({ name: "AES-GCM", iv }, await aesKey(toList(secrets)[0]), encoder.encode(value));
+  const payload = new Uint8Array(iv.length + ciphertext.byteLength);
+  payload.set(iv);
+  payload.set(new Uint8Array(ciphertext), iv.length);
+  return toBase64Url(payload);
+}
+
+/**
+ * Decrypts a value produced by `encryptValue`, trying every secret
+ * @returns The original value, or null when it cannot be decrypted
+ */
+export async function decryptValue(encrypted: string, secrets: CookieSecrets): Promise<string | null> {
+  const payload = fromBase64Url(encrypted);
+  if (!payload || payload.length <= 12) return null;
+
+  for (const secret of toList(secrets)) {
+    try {
+      const plaintext = await crypto.subtle.decrypt(
+        { name: "AES-GCM", iv: payload.subarray(0, 12) },
+        await aesKey(secret),
+        payload.subarray(12),
+      );
+      return new TextDecoder().decode(plaintext);
+    } catch {
+      // Try the next secret
+    }
+  }
+  return null;
+}
+
+/**
+ * Sets a cookie whose value is signed, so it can be read but not tampered with
+ */
+export async function setSignedCookie(
+  target: Headers | Response,
+  name: string,
+  value: string,
+  secrets: CookieSecrets,
+  options: CookieOptions = {},
+): Promise<void> {
+  setCookie(target, name, await signValue(value, secrets), options);
+}
+
+/**
+ * Reads a signed cookie
+ * @returns The value, or null when the cookie is missing or its signature is invalid
+ */
+export async function getSignedCookie(req: Request, name: string, secrets: CookieSecrets): Promise<string | null> {
+  const signed = parseCookies(req.headers.get("cookie"))[name];
+  return signed === undefined ? null : await unsignValue(signed, secrets);
+}
+
+/**
+ * Sets a cookie whose value is encrypted, so it can neither be read nor tampered with
+ */
+export async function setEncryptedCookie(
+  target: Headers | Response,
+  name: string,
+  value: string,
+  secrets: CookieSecrets,
+  options: CookieOptions = {},
+): Promise<void> {
+  setCookie(target, name, await encryptValue(value, secrets), options);
+}
+
+/**
+ * Reads an encrypted cookie
+ * @returns The value, or null when the cookie is missing or cannot be decrypted
+ */
+export async function getEncryptedCookie(req: Request, name: string, secrets: CookieSecrets): Promise<string | null> {
+  const encrypted = parseCookies(req.headers.get("cookie"))[name];
+  return encrypted === undefined ? null : await decryptValue(encrypted, secrets);
+}
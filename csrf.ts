@@ -0,0 +1,125 @@
+import { Req, Middleware, ResponseHelper } from "./types.ts";
+import { CookieOptions, CookieSecrets, parseCookies, randomToken, setCookie, signValue, unsignValue } from "./cookie.ts";
+import { timingSafeEqual } from "./auth.ts";
+
+/**
+ * Options for the CSRF middleware
+ */
+export interface CsrfOptions {
+  /**
+   * Where the expected token is kept (default: "cookie").
+   * "cookie" uses the signed double-submit cookie pattern and needs `secret`,
+   * "session" keeps a synchronizer token in `req.session` and needs the `session()` middleware before it
+   */
+  storage?: "cookie" | "session";
+  /** Secrets signing the token cookie. The first one signs, all of them verify */
+  secret?: CookieSecrets;
+  /** Name of the token cookie (default: "csrf") */
+  cookieName?: string;
+  /** Token cookie attributes (default: readable by scripts, SameSite=Lax, Secure over HTTPS) */
+  cookie?: CookieOptions;
+  /** Header carrying the token (default: "X-CSRF-Token") */
+  headerName?: string;
+  /** Field of urlencoded forms carrying the token (default: "_csrf") */
+  fieldName?: string;
+  /** Origins besides the server's own allowed to send unsafe requests, e.g. "https://app.example.com" */
+  trustedOrigins?: string[];
+  /** Paths that are not checked, exact or as a prefix ending in `*`, or a function deciding per request */
+  exempt?: (string | RegExp)[] | ((req: Req) => boolean);
+}
+
+const SAFE_METHODS = new Set(["GET", "HEAD", "OPTIONS", "TRACE"]);
+const SESSION_KEY = "csrfToken";
+
+function isExempt(req: Req, exempt: CsrfOptions["exempt"]): boolean {
+  if (!exempt) return false;
+  if (typeof exempt === "function") return exempt(req);
+  const { pathname } = new URL(req.url);
+  return exempt.some((pattern) =>
+    typeof pattern === "string"
+      ? pattern.endsWith("*") ? pathname.startsWith(pattern.slice(0, -1)) : pathname === pattern
+      : pattern.test(pathname)
+  );
+}
+
+// Rejects requests sent by another site, using Origin and, for clients not sending it, Sec-Fetch-Site
+function crossSiteRejection(req: Req, trustedOrigins: string[]): string | null {
+  const origin = req.headers.get("origin");
+  if (origin !== null) {
+    const own = `${req.protocol}://${req.host}`;
+    return origin === own || trustedOrigins.includes(origin) ? null : "Cross-origin request blocked";
+  }
+  const site = req.headers.get("sec-fetch-site");
+  return site && site !== "same-origin" && site !== "none" ? "Cross-site request blocked" : null;
+}
+
+// Reads the token from the header, or from the form field without consuming the body
+async function submittedToken(req: Req, headerName: string, fieldName: string): Promise<string | null> {
+  const header = req.headers.get(headerName);
+  if (header) return header;
+  if (!req.headers.get("content-type")?.includes("application/x-www-form-urlencoded") || !req.body) return null;
+  const value = (await req.clone().formData()).get(fieldName);
+  return typeof value === "string" ? value : null;
+}
+
+/**
+ * Middleware protecting cookie-authenticated routes against cross-site request forgery.
+ * Unsafe methods need a token matching the cookie or session, sent in a header or form field,
+ * and must come from the server's own or a trusted origin. Failures are answered with 403.
+ * Templates get the token from `req.csrfToken()`.
+ * @param options - The CSRF options
+ * @returns The middleware function
+ * @throws If `storage` is "cookie" and no secret is given
+ */
+export function csrf(options: CsrfOptions = {}): Middleware {
+  const {
+    storage = "cookie",
+    secret,
+    cookieName = "csrf",
+    headerName = "X-CSRF-Token",
+    fieldName = "_csrf",
+    trustedOrigins = [],
+    exempt,
+  } = options;
+  if (storage === "cookie" && !secret) throw new Error('csrf() needs a secret with storage "cookie"');
+
+  return async function csrf(req: Req, next) {
+    let expected: string | null;
+    let issue: string | null = null;
+    if (storage === "session") {
+      if (!req.session) throw new Error('csrf() with storage "session" needs the session() middleware before it');
+      expected = req.session.get<string>(SESSION_KEY) ?? null;
+      req.csrfToken = () => {
+        // Only a new token changes the session, so reading it does not save the session again
+        if (!expected) {
+          expected = randomToken();
+          req.session!.set(SESSION_KEY, expected);
+        }
+        return expected;
+      };
+    } else {
+      const cookie = parseCookies(req.headers.get("cookie"))[cookieName];
+      expected = cookie && await unsignValue(cookie, secret!) !== null ? cookie : null;
+      // Clients without a valid cookie get a new one, so scripts can read it before their first unsafe request
+      const token = expected ?? (issue = await signValue(randomToken(), secret!));
+      req.csrfToken = () => token;
+    }
+
+    if (!SAFE_METHODS.has(req.method) && !isExempt(req, exempt)) {
+      const rejection = crossSiteRejection(req, trustedOrigins);
+      if (rejection) return ResponseHelper.problem(403, rejection);
+
+      const submitted = await submittedToken(req, headerName, fieldName);
+      if (!submitted) return ResponseHelper.problem(403, "Missing CSRF token");
+      if (!expected || !(await timingSafeEqual(submitted, expected))) {
+        return ResponseHelper.problem(403, "Invalid CSRF token");
+      }
+    }
+
+    const response = await next();
+    if (!issue) return response;
+    return ResponseHelper.withHeaders(response, (headers) => {
+      setCookie(headers, cookieName, issue, { path: "/", sameSite: "Lax", secure: req.secure, ...options.cookie });
+    });
+  };
+}
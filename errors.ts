@@ -0,0 +1,249 @@
+/**
+ * Problem details of an error response, as defined by RFC 9457
+ */
+export interface ProblemDetails {
+  /** URI identifying the problem type, "about:blank" when the status says it all */
+  type: string;
+  /** Short summary of the problem type */
+  title: string;
+  /** HTTP status code */
+  status: number;
+  /** Explanation specific to this occurrence */
+  detail?: string;
+  /** URI of this occurrence, the request path by default */
+  instance?: string;
+  /** Extension members */
+  [extension: string]: unknown;
+}
+
+/**
+ * Options of an `HttpError`
+ */
+export interface HttpErrorOptions {
+  /** URI identifying the problem type (default: "about:blank") */
+  type?: string;
+  /** Short summary of the problem type (default: the reason phrase of the status) */
+  title?: string;
+  /** URI of this occurrence (default: the request path) */
+  instance?: string;
+  /** Extension members of the problem details, e.g. `{ balance: 30 }` */
+  extensions?: Record<string, unknown>;
+  /** Headers of the error response, e.g. `Retry-After` */
+  headers?: Record<string, string>;
+  /** The error that caused this one */
+  cause?: unknown;
+}
+
+const STATUS_TITLES: Record<number, string> = {
+  400: "Bad Request",
+  401: "Unauthorized",
+  403: "Forbidden",
+  404: "Not Found",
+  405: "Method Not Allowed",
+  406: "Not Acceptable",
+  408: "Request Timeout",
+  409: "Conflict",
+  410: "Gone",
+  412: "Precondition Failed",
+  413: "Content Too Large",
+  415: "Unsupported Media Type",
+  422: "Unprocessable Content",
+  426: "Upgrade Required",
+  428: "Precondition Required",
+  429: "Too Many Requests",
+  431: "Request Header Fields Too Large",
+  500: "Internal Server Error",
+  501: "Not Implemented",
+  502: "Bad Gateway",
+  503: "Service Unavailable",
+  504: "Gateway Timeout",
+};
+
+/**
+ * An error with an HTTP status. Throw it from handlers or middleware to answer with that status,
+ * rendered as `application/problem+json` unless an `errorHandler` takes care of it.
+ */
+export class HttpError extends Error {
+  readonly status: number;
+  readonly type: string;
+  readonly title: string;
+  readonly detail?: string;
+  readonly instance?: string;
+  readonly extensions: Record<string, unknown>;
+  readonly headers: Record<string, string>;
+
+  constructor(status: number, detail?: string, options: HttpErrorOptions = {}) {
+    const title = options.title ?? STATUS_TITLES[status] ?? (status >= 500 ? "Server Error" : "Client Error");
+    super(detail ?? title, { cause: options.cause });
+    this.name = "HttpError";
+    this.status = status;
+    this.type = options.type ?? "about:blank";
+    this.title = title;
+    this.detail = detail;
+    this.instance = options.instance;
+    this.extensions = options.extensions ?? {};
+    this.headers = options.headers ?? {};
+  }
+
+  /**
+   * Wraps any thrown value. HttpErrors are returned as they are, anything else becomes a 500
+   * whose message is only shown in debug mode
+   */
+  static from(error: unknown): HttpError {
+    if (error instanceof HttpError) return error;
+    return new InternalServerError(undefined, { cause: error });
+  }
+
+  /**
+   * The problem details of the error
+   * @param options - `instance` used when the error has none, and `debug` to include
+   *   the message and stack trace of the underlying error
+   */
+  toProblem(options: { instance?: string; debug?: boolean } = {}): ProblemDetails {
+    const { debug = false } = options;
+    const problem: ProblemDetails = { ...this.extensions, type: this.type, title: this.title, status: this.status };
+    const cause = this.cause instanceof Error ? this.cause : undefined;
+    const detail = this.detail ?? (debug ? cause?.message : undefined);
+    if (detail !== undefined) problem.detail = detail;
+    const instance = this.instance ?? options.instance;
+    if (instance !== undefined) problem.instance = instance;
+    if (debug) problem.stack = (cause ?? this).stack;
+    return problem;
+  }
+
+  /**
+   * Renders the error as an `application/problem+json` response
+   * @param options - See `toProblem()`
+   */
+  toResponse(options: { instance?: string; debug?: boolean } = {}): Response {
+    const headers = new Headers(this.headers);
+    headers.set("Content-Type", "application/problem+json");
+    return new Response(JSON.stringify(this.toProblem(options)), { status: this.status, headers });
+  }
+}
+
+export class BadRequest extends HttpError {
+  constructor(detail?: string, options?: HttpErrorOptions) {
+    super(400, detail, options);
+    this.name = "BadRequest";
+  }
+}
+
+export class Unauthorized extends HttpError {
+  constructor(detail?: string, options?: HttpErrorOptions) {
+    super(401, detail, options);
+    this.name = "Unauthorized";
+  }
+}
+
+export class Forbidden extends HttpError {
+  constructor(detail?: string, options?: HttpErrorOptions) {
+    super(403, detail, options);
+    this.name = "Forbidden";
+  }
+}
+
+export class NotFound extends HttpError {
+  constructor(detail?: string, options?: HttpErrorOptions) {
+    super(404, detail, options);
+    this.name = "NotFound";
+  }
+}
+
+export class MethodNotAllowed extends HttpError {
+  constructor(detail?: string, options?: HttpErrorOptions) {
+    super(405, detail, options);
+    this.name = "MethodNotAllowed";
+  }
+}
+
+export class NotAcceptable extends HttpError {
+  constructor(detail?: string, options?: HttpErrorOptions) {
+    super(406, detail, options);
+    this.name = "NotAcceptable";
+  }
+}
+
+export class RequestTimeout extends HttpError {
+  constructor(detail?: string, options?: HttpErrorOptions) {
+    super(408, detail, options);
+    this.name = "RequestTimeout";
+  }
+}
+
+export class Conflict extends HttpError {
+  constructor(detail?: string, options?: HttpErrorOptions) {
+    super(409, detail, options);
+    this.name = "Conflict";
+  }
+}
+
+export class Gone extends HttpError {
+  constructor(detail?: string, options?: HttpErrorOptions) {
+    super(410, detail, options);
+    this.name = "Gone";
+  }
+}
+
+export class PayloadTooLarge extends HttpError {
+  constructor(detail?: string, options?: HttpErrorOptions) {
+    super(413, detail, options);
+    this.name = "PayloadTooLarge";
+  }
+}
+
+export class UnsupportedMediaType extends HttpError {
+  constructor(detail?: string, options?: HttpErrorOptions) {
+    super(415, detail, options);
+    this.name = "UnsupportedMediaType";
+  }
+}
+
+export class UnprocessableEntity extends HttpError {
+  constructor(detail?: string, options?: HttpErrorOptions) {
+    super(422, detail, options);
+    this.name = "UnprocessableEntity";
+  }
+}
+
+export class TooManyRequests extends HttpError {
+  constructor(detail?: string, options?: HttpErrorOptions) {
+    super(429, detail, options);
+    this.name = "TooManyRequests";
+  }
+}
+
+export class InternalServerError extends HttpError {
+  constructor(detail?: string, options?: HttpErrorOptions) {
+    super(500, detail, options);
+    this.name = "InternalServerError";
+  }
+}
+
+export class NotImplemented extends HttpError {
+  constructor(detail?: string, options?: HttpErrorOptions) {
+    super(501, detail, options);
+    this.name = "NotImplemented";
+  }
+}
+
+export class BadGateway extends HttpError {
+  constructor(detail?: string, options?: HttpErrorOptions) {
+    super(502, detail, options);
+    this.name = "BadGateway";
+  }
+}
+
+export class ServiceUnavailable extends HttpError {
+  constructor(detail?: string, options?: HttpErrorOptions) {
+    super(503, detail, options);
+    this.name = "ServiceUnavailable";
+  }
+}
+
+export class GatewayTimeout extends HttpError {
+  constructor(detail?: string, options?: HttpErrorOptions) {
+    super(504, detail, options);
+    this.name = "GatewayTimeout";
+  }
+}
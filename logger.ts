@@ -0,0 +1,190 @@
+import { Req, Middleware } from "./types.ts";
+import { HttpError } from "./errors.ts";
+
+/**
+ * An access log entry
+ */
+export interface LogEntry {
+  /** ISO timestamp of the request start */
+  time: string;
+  /** Request ID */
+  id: string;
+  method: string;
+  /** Pattern of the matched route, e.g. `/users/:id`, or null when no route matched */
+  route: string | null;
+  status: number;
+  /** Milliseconds until the response headers were ready */
+  duration: number;
+  /** Bytes of the response body */
+  bytes: number;
+  /** Client IP address, when known */
+  ip: string | null;
+  /** Query parameters, with redacted values */
+  query: Record<string, string>;
+  /** Request headers with redacted values, when `headers` is enabled */
+  headers?: Record<string, string>;
+  /** Middleware and routes the request passed through, in debug mode */
+  trace?: string[];
+  /** Message of the error thrown while handling the request */
+  error?: string;
+}
+
+/**
+ * Options for the logger middleware
+ */
+export interface LoggerOptions {
+  /** Log line format (default: "json") */
+  format?: "json" | "pretty";
+  /** Receives every entry and its formatted line (default: `console.log(line)`) */
+  sink?: (entry: LogEntry, line: string) => void;
+  /** Fraction of requests to log, between 0 and 1. Server errors are always logged (default: 1) */
+  sampleRate?: number;
+  /** Include the request headers (default: false) */
+  headers?: boolean;
+  /** Headers whose values are replaced by `[REDACTED]` (default: authorization, cookie and API key headers) */
+  redactHeaders?: string[];
+  /** Query keys whose values are replaced by `[REDACTED]` (default: token, password, secret, api_key) */
+  redactQuery?: string[];
+  /** Header carrying the request ID, propagated from the request and set on the response (default: "X-Request-Id") */
+  requestIdHeader?: string;
+  /** Creates request IDs (default: `crypto.randomUUID()`) */
+  generateId?: () => string;
+  /** Requests for which nothing is logged, e.g. health checks */
+  skip?: (req: Req) => boolean;
+}
+
+const REDACTED = "[REDACTED]";
+// Incoming IDs are only trusted when they cannot break the log format
+const VALID_REQUEST_ID = /^[\w.:-]{1,128}$/;
+
+function redact(entries: Iterable<[string, string]>, keys: Set<string>): Record<string, string> {
+  const result: Record<string, string> = {};
+  for (const [key, value] of entries) {
+    result[key] = keys.has(key.toLowerCase()) ? REDACTED : value;
+  }
+  return result;
+}
+
+/**
+ * Formats an entry as a single human readable line
+ */
+export function formatLogEntry(entry: LogEntry): string {
+  let line = `${entry.time} ${entry.id} ${entry.method} ${entry.route ?? "(unmatched)"} ${entry.status} ` +
+    `${entry.duration}ms ${entry.bytes}B ${entry.ip ?? "-"}`;
+  if (entry.error) line += ` error="${entry.error}"`;
+  if (entry.trace) line += ` via ${entry.trace.join(" > ")}`;
+  return line;
+}
+
+/**
+ * Middleware to log every request once its response was sent, and to assign request IDs.
+ * The ID is taken from the request ID header when valid, exposed as `req.id` and set on the response.
+ * @param options - The logger options
+ * @returns The middleware function
+ */
+export function logger(options: LoggerOptions = {}): Middleware {
+  const {
+    format = "json",
+    sink = (_entry: LogEntry, line: string) => console.log(line),
+    sampleRate = 1,
+    requestIdHeader = "X-Request-Id",
+    generateId = () => crypto.randomUUID(),
+    skip,
+  } = options;
+  const redactHeaders = new Set(
+    (options.redactHeaders ?? ["authorization", "proxy-authorization", "cookie", "set-cookie", "x-api-key"])
+      .map((name) => name.toLowerCase()),
+  );
+  const redactQuery = new Set(
+    (options.redactQuery ?? ["token", "password", "secret", "api_key"]).map((key) => key.toLowerCase()),
+  );
+
+  return async function logger(req: Req, next) {
+    const incomingId = req.headers.get(requestIdHeader);
+    req.id = incomingId && VALID_REQUEST_ID.test(incomingId) ? incomingId : generateId();
+    if (skip?.(req)) return next();
+
+    const time = new Date().toISOString();
+    const start = performance.now();
+    const sampled = Math.random() < sampleRate;
+    let duration = 0;
+
+    const write = (status: number, bytes: number, error?: unknown) => {
+      if (!sampled && status < 500) return;
+      const entry: LogEntry = {
+        time,
+        id: req.id!,
+        method: req.method,
+        route: req.route ?? null,
+        status,
+        duration,
+        bytes,
+        ip: req.ip || null,
+        query: redact(new URL(req.url).searchParams.entries(), redactQuery),
+      };
+      if (options.headers) entry.headers = redact(req.headers.entries(), redactHeaders);
+      if (req.trace) entry.trace = [...req.trace];
+      if (error !== undefined) entry.error = error instanceof Error ? error.message : String(error);
+      sink(entry, format === "json" ? JSON.stringify(entry) : formatLogEntry(entry));
+    };
+
+    let response: Response;
+    try {
+      response = await next();
+    } catch (error) {
+      duration = Math.round((performance.now() - start) * 100) / 100;
+      // The server renders thrown HttpErrors with their own status, anything else with 500
+      write(HttpError.from(error).status, 0, error);
+      throw error;
+    }
+    duration = Math.round((performance.now() - start) * 100) / 100;
+    if (response.status === 101) {
+      write(101, 0);
+      return response;
+    }
+
+    const headers = new Headers(response.headers);
+    headers.set(requestIdHeader, req.id);
+
+    // Log once the body was sent, so that streamed bodies are counted
+    let body: ReadableStream<Uint8Array> | null = response.body;
+    if (body) {
+      let bytes = 0;
+      let logged = false;
+      const done = () => {
+        if (!logged) write(response.status, bytes);
+        logged = true;
+      };
+      const reader = body.getReader();
+      body = new ReadableStream<Uint8Array>({
+        async pull(controller) {
+          try {
+            const result = await reader.read();
+            if (result.done) {
+              done();
+              controller.close();
+            } else {
+              bytes += result.value.length;
+              controller.enqueue(result.value);
+            }
+          } catch (error) {
+            done();
+            controller.error(error);
+          }
+        },
+        cancel(reason) {
+          done();
+          return reader.cancel(reason);
+        },
+      });
+    } else {
+      write(response.status, 0);
+    }
+
+    return new Response(body, {
+      status: response.status,
+      statusText: response.statusText,
+      headers,
+    });
+  };
+}
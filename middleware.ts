@@ -1,4 +1,4 @@
-import { Req, Middleware } from "./types.ts";
+import { Req, Middleware, ResponseHelper } from "./types.ts";
 
 export interface CorsOptions {
   origin?: string | string[] | ((origin: string) => boolean);
@@ -45,7 +45,7 @@ function setCorsHeaders(headers: Headers, options: CorsOptions, origin?: string)
  * @returns The middleware function
  */
 export function cors(options: CorsOptions = {}): Middleware {
-  return async (req: Req, next) => {
+  return async function cors(req: Req, next) {
     const origin = req.headers.get("origin") || undefined;
     
     if (req.method === "OPTIONS") {
@@ -54,15 +54,7 @@ export function cors(options: CorsOptions = {}): Middleware {
       return new Response(null, { headers });
     }
 
-    const response = await next();
-    const headers = new Headers(response.headers);
-    setCorsHeaders(headers, options, origin);
-
-    return new Response(response.body, {
-      status: response.status,
-      statusText: response.statusText,
-      headers,
-    });
+    return ResponseHelper.withHeaders(await next(), (headers) => setCorsHeaders(headers, options, origin));
   };
 }
 
@@ -71,60 +63,423 @@ export function cors(options: CorsOptions = {}): Middleware {
  * @returns The middleware function
  */
 export function securityHeaders(): Middleware {
-  return async (_: Req, next) => {
-    const response = await next();
-    const headers = new Headers(response.headers);
-
-    // Add security headers
-    headers.set("X-Content-Type-Options", "nosniff");
-    headers.set("X-Frame-Options", "DENY");
-    headers.set("X-XSS-Protection", "1; mode=block");
-    headers.set("Referrer-Policy", "strict-origin-when-cross-origin");
-    headers.set("Content-Security-Policy", "default-src 'self'");
-
-    return new Response(response.body, {
-      status: response.status,
-      statusText: response.statusText,
-      headers,
+  return async function securityHeaders(_: Req, next) {
+    return ResponseHelper.withHeaders(await next(), (headers) => {
+      headers.set("X-Content-Type-Options", "nosniff");
+      headers.set("X-Frame-Options", "DENY");
+      headers.set("X-XSS-Protection", "1; mode=block");
+      headers.set("Referrer-Policy", "strict-origin-when-cross-origin");
+      headers.set("Content-Security-Policy", "default-src 'self'");
     });
   };
 }
 
 /**
- * Middleware to rate limit requests
- * @param options - The rate limit options
+ * Options for the static file middleware
+ */
+export interface ServeStaticOptions {
+  /** File served for directory requests, or false to disable (default: "index.html") */
+  index?: string | false;
+  /** Serve the root index file for unknown paths that accept HTML, for single page apps (default: false) */
+  spaFallback?: boolean;
+  /** How to treat paths containing dotfiles: "deny" answers 403, "ignore" passes to the next handler (default: "ignore") */
+  dotfiles?: "allow" | "deny" | "ignore";
+  /** Serve precompressed `.br` and `.gz` siblings when the client accepts them (default: true) */
+  precompressed?: boolean;
+  /** Value of the Cache-Control header */
+  cacheControl?: string;
+}
+
+const MIME_TYPES: Record<string, string> = {
+  html: "text/html; charset=utf-8",
+  htm: "text/html; charset=utf-8",
+  css: "text/css; charset=utf-8",
+  js: "text/javascript; charset=utf-8",
+  mjs: "text/javascript; charset=utf-8",
+  json: "application/json; charset=utf-8",
+  map: "application/json; charset=utf-8",
+  txt: "text/plain; charset=utf-8",
+  md: "text/markdown; charset=utf-8",
+  csv: "text/csv; charset=utf-8",
+  xml: "application/xml; charset=utf-8",
+  svg: "image/svg+xml",
+  png: "image/png",
+  jpg: "image/jpeg",
+  jpeg: "image/jpeg",
+  gif: "image/gif",
+  webp: "image/webp",
+  avif: "image/avif",
+  ico: "image/x-icon",
+  woff: "font/woff",
+  woff2: "font/woff2",
+  ttf: "font/ttf",
+  otf: "font/otf",
+  wasm: "application/wasm",
+  pdf: "application/pdf",
+  zip: "application/zip",
+  mp3: "audio/mpeg",
+  mp4: "video/mp4",
+  webm: "video/webm",
+};
+
+/**
+ * Gets the Content-Type of a file from its extension
+ * @param path - The file path
+ */
+function contentTypeFor(path: string): string {
+  const extension = path.slice(path.lastIndexOf(".") + 1).toLowerCase();
+  return MIME_TYPES[extension] ?? "application/octet-stream";
+}
+
+/**
+ * Streams the inclusive byte range of a file and closes it when done
+ */
+function fileRangeStream(file: Deno.FsFile, start: number, end: number): ReadableStream<Uint8Array> {
+  let remaining = end - start + 1;
+  return new ReadableStream({
+    async start() {
+      await file.seek(start, Deno.SeekMode.Start);
+    },
+    async pull(controller) {
+      const chunk = new Uint8Array(Math.min(64 * 1024, remaining));
+      const read = await file.read(chunk);
+      if (read === null || read === 0) {
+        file.close();
+        controller.close();
+        return;
+      }
+      remaining -= read;
+      controller.enqueue(chunk.subarray(0, read));
+      if (remaining <= 0) {
+        file.close();
+        controller.close();
+      }
+    },
+    cancel() {
+      file.close();
+    },
+  });
+}
+
+/**
+ * Parses a single `bytes=` range. Returns null when the header should be ignored
+ * and "unsatisfiable" when the range is outside the file.
+ */
+function parseRange(header: string, size: number): { start: number; end: number } | "unsatisfiable" | null {
+  const match = /^bytes=(\d*)-(\d*)$/.exec(header.trim());
+  if (!match || (!match[1] && !match[2])) return null;
+
+  let start: number;
+  let end: number;
+  if (!match[1]) {
+    // Suffix range: the last N bytes
+    start = Math.max(size - Number(match[2]), 0);
+    end = size - 1;
+  } else {
+    start = Number(match[1]);
+    end = match[2] ? Math.min(Number(match[2]), size - 1) : size - 1;
+  }
+
+  if (start >= size || start > end) return "unsatisfiable";
+  return { start, end };
+}
+
+/**
+ * Stats a file, returning null when it does not exist
+ */
+async function statFile(path: string): Promise<Deno.FileInfo | null> {
+  try {
+    return await Deno.stat(path);
+  } catch (error) {
+    if (error instanceof Deno.errors.NotFound) return null;
+    throw error;
+  }
+}
+
+/**
+ * Middleware to serve static files from a directory
+ * @param root - The directory to serve files from
+ * @param options - The static file options
  * @returns The middleware function
  */
-export interface RateLimitOptions {
-  windowMs: number;
-  max: number;
+export function serveStatic(root: string, options: ServeStaticOptions = {}): Middleware {
+  const {
+    index = "index.html",
+    spaFallback = false,
+    dotfiles = "ignore",
+    precompressed = true,
+    cacheControl,
+  } = options;
+  const rootDir = root.replace(/[\\/]+$/, "") || ".";
+
+  const resolveFile = async (segments: string[]) => {
+    const path = [rootDir, ...segments].join("/");
+    const info = await statFile(path);
+    if (info?.isFile) return { path, info };
+    if (info?.isDirectory && index) {
+      const indexPath = `${path}/${index}`;
+      const indexInfo = await statFile(indexPath);
+      if (indexInfo?.isFile) return { path: indexPath, info: indexInfo };
+    }
+    return null;
+  };
+
+  return async function serveStatic(req: Req, next) {
+    if (req.method !== "GET" && req.method !== "HEAD") {
+      return next();
+    }
+
+    let pathname: string;
+    try {
+      pathname = decodeURIComponent(new URL(req.url).pathname);
+    } catch {
+      return new Response("Bad Request", { status: 400 });
+    }
+
+    // Block path traversal and dotfiles
+    const segments = pathname.split("/").filter((segment) => segment !== "");
+    if (pathname.includes("\0") || segments.some((segment) => segment === ".." || segment.includes("\\"))) {
+      return new Response("Forbidden", { status: 403 });
+    }
+    if (dotfiles !== "allow" && segments.some((segment) => segment.startsWith("."))) {
+      return dotfiles === "deny" ? new Response("Forbidden", { status: 403 }) : next();
+    }
+
+    let file = await resolveFile(segments);
+    if (!file && spaFallback && req.headers.get("accept")?.includes("text/html")) {
+      file = await resolveFile([]);
+    }
+    if (!file) {
+      return next();
+    }
+
+    const headers = new Headers({ "Content-Type": contentTypeFor(file.path), "Accept-Ranges": "bytes" });
+    if (cacheControl) headers.set("Cache-Control", cacheControl);
+    if (precompressed) headers.set("Vary", "Accept-Encoding");
+
+    // Use a precompressed sibling unless a byte range of the original was asked for
+    let { path, info } = file;
+    let encoding: string | null = null;
+    if (precompressed && !req.headers.has("range")) {
+      const accepted = req.headers.get("accept-encoding") ?? "";
+      for (const [name, extension] of [["br", "br"], ["gzip", "gz"]]) {
+        if (!accepted.includes(name)) continue;
+        const compressedInfo = await statFile(`${path}.${extension}`);
+        if (compressedInfo?.isFile) {
+          path = `${path}.${extension}`;
+          info = compressedInfo;
+          encoding = name;
+          headers.set("Content-Encoding", name);
+          break;
+        }
+      }
+    }
+
+    const mtime = info.mtime;
+    const etag = `W/"${info.size.toString(16)}-${(mtime?.getTime() ?? 0).toString(16)}${encoding ? `-${encoding}` : ""}"`;
+    headers.set("ETag", etag);
+    if (mtime) headers.set("Last-Modified", mtime.toUTCString());
+
+    // Conditional requests
+    const ifNoneMatch = req.headers.get("if-none-match");
+    const ifModifiedSince = req.headers.get("if-modified-since");
+    const notModified = ifNoneMatch
+      ? ifNoneMatch === "*" || ifNoneMatch.split(",").some((tag) => tag.trim() === etag)
+      : !!(ifModifiedSince && mtime && Math.floor(mtime.getTime() / 1000) <= Date.parse(ifModifiedSince) / 1000);
+    if (notModified) {
+      return new Response(null, { status: 304, headers });
+    }
+
+    // Range requests, honoring If-Range
+    const rangeHeader = req.headers.get("range");
+    const ifRange = req.headers.get("if-range");
+    const rangeApplies = rangeHeader && (!ifRange || ifRange === etag || ifRange === mtime?.toUTCString());
+    const range = rangeApplies ? parseRange(rangeHeader, info.size) : null;
+
+    if (range === "unsatisfiable") {
+      headers.set("Content-Range", `bytes */${info.size}`);
+      return new Response(null, { status: 416, headers });
+    }
+
+    const { start, end } = range ?? { start: 0, end: info.size - 1 };
+    const length = Math.max(end - start + 1, 0);
+    headers.set("Content-Length", length.toString());
+    if (range) {
+      headers.set("Content-Range", `bytes ${start}-${end}/${info.size}`);
+    }
+    const status = range ? 206 : 200;
+
+    if (req.method === "HEAD") {
+      return new Response(null, { status, headers });
+    }
+
+    const handle = await Deno.open(path, { read: true });
+    const body = range ? fileRangeStream(handle, start, end) : handle.readable;
+    return new Response(body, { status, headers });
+  };
+}
+
+export type CompressionEncoding = "br" | "gzip" | "deflate";
+
+export interface CompressOptions {
+  /**
+   * Minimum body size in bytes (default: 1024). Bodies without `Content-Length` are read up to this size
+   * to decide, except event streams, which are always compressed
+   */
+  threshold?: number;
+  /** Encodings in order of preference, unsupported ones are ignored (default: ["br", "gzip", "deflate"]) */
+  encodings?: CompressionEncoding[];
+  /** Decides whether a content type is worth compressing (default: text, JSON, XML, JavaScript, SVG and WebAssembly) */
+  filter?: (contentType: string) => boolean;
+}
+
+const COMPRESSIBLE = /^text\/|^application\/(?:[\w.-]+\+)?(?:json|xml|javascript|wasm)\b|^image\/svg\+xml\b/i;
+
+const COMPRESSION_FORMATS: Record<CompressionEncoding, string> = {
+  br: "brotli",
+  gzip: "gzip",
+  deflate: "deflate",
+};
+
+// Brotli is only available in recent runtimes
+function supportsFormat(format: string): boolean {
+  try {
+    new CompressionStream(format as CompressionFormat);
+    return true;
+  } catch {
+    return false;
+  }
 }
 
 /**
- * Middleware to rate limit requests
- * @param options - The rate limit options
+ * Picks the encoding with the highest q-value, preferring earlier encodings on ties
+ */
+function negotiateEncoding(header: string | null, encodings: CompressionEncoding[]): CompressionEncoding | null {
+  if (!header) return null;
+
+  const weights = new Map<string, number>();
+  for (const part of header.toLowerCase().split(",")) {
+    const [name, ...params] = part.split(";").map((value) => value.trim());
+    const q = params.find((param) => param.startsWith("q="));
+    weights.set(name, q ? Number(q.slice(2)) || 0 : 1);
+  }
+
+  let best: CompressionEncoding | null = null;
+  let bestWeight = 0;
+  for (const encoding of encodings) {
+    const weight = weights.get(encoding) ?? weights.get("*") ?? 0;
+    if (weight > bestWeight) {
+      best = encoding;
+      bestWeight = weight;
+    }
+  }
+  return best;
+}
+
+// Reads a body until `limit` bytes or its end, and returns the size read with a stream of the whole body
+async function peekBody<T extends Uint8Array>(
+  body: ReadableStream<T>,
+  limit: number,
+): Promise<{ size: number; ended: boolean; body: ReadableStream<T> }> {
+  const reader = body.getReader();
+  const chunks: T[] = [];
+  let size = 0;
+  let ended = false;
+  while (size < limit) {
+    const result = await reader.read();
+    if (result.done) {
+      ended = true;
+      break;
+    }
+    chunks.push(result.value);
+    size += result.value.length;
+  }
+
+  return {
+    size,
+    ended,
+    body: new ReadableStream<T>({
+      async pull(controller) {
+        const chunk = chunks.shift();
+        if (chunk) return controller.enqueue(chunk);
+        const result = ended ? { done: true as const } : await reader.read();
+        if (result.done) controller.close();
+        else controller.enqueue(result.value);
+      },
+      cancel(reason) {
+        return reader.cancel(reason);
+      },
+    }),
+  };
+}
+
+function appendVary(headers: Headers, field: string) {
+  const vary = headers.get("Vary");
+  if (!vary) {
+    headers.set("Vary", field);
+  } else if (vary !== "*" && !vary.toLowerCase().split(",").some((value) => value.trim() === field.toLowerCase())) {
+    headers.set("Vary", `${vary}, ${field}`);
+  }
+}
+
+/**
+ * Middleware to compress responses with the best encoding accepted by the client.
+ * Bodies are compressed as they stream, so SSE and other streaming responses are flushed chunk by chunk.
+ * @param options - The compression options
  * @returns The middleware function
  */
-export function rateLimit(options: RateLimitOptions): Middleware {
-  const requests = new Map<string, { count: number; resetTime: number }>();
-
-  return (req: Req, next) => {
-    const ip = req.headers.get("x-forwarded-for") || "unknown";
-    const now = Date.now();
-
-    const requestData = requests.get(ip);
-    if (requestData) {
-      if (now > requestData.resetTime) {
-        requests.set(ip, { count: 1, resetTime: now + options.windowMs });
-      } else if (requestData.count >= options.max) {
-        return new Response("Too Many Requests", { status: 429 });
-      } else {
-        requestData.count++;
+export function compress(options: CompressOptions = {}): Middleware {
+  const {
+    threshold = 1024,
+    filter = (contentType: string) => COMPRESSIBLE.test(contentType),
+  } = options;
+  const encodings = (options.encodings ?? ["br", "gzip", "deflate"])
+    .filter((encoding) => supportsFormat(COMPRESSION_FORMATS[encoding]));
+
+  return async function compress(req: Req, next) {
+    const response = await next();
+    if (!response.body || response.status === 101 || response.status === 206) return response;
+
+    const contentType = response.headers.get("Content-Type");
+    if (!contentType || !filter(contentType) || response.headers.has("Content-Encoding")) return response;
+    if (/(?:^|,)\s*no-transform\s*(?:,|$)/i.test(response.headers.get("Cache-Control") ?? "")) return response;
+
+    // The representation depends on Accept-Encoding from here on, even when it is not compressed
+    const headers = new Headers(response.headers);
+    appendVary(headers, "Accept-Encoding");
+
+    const length = response.headers.get("Content-Length");
+    let body = response.body;
+    let encoding = negotiateEncoding(req.headers.get("accept-encoding"), encodings);
+    if (length !== null && Number(length) < threshold) encoding = null;
+    // Bodies of unknown size, such as those of ResponseHelper.json(), are measured up to the threshold.
+    // Event streams are not held back until enough events were sent
+    if (encoding && length === null && threshold > 0 && !contentType.startsWith("text/event-stream")) {
+      const peeked = await peekBody(body, threshold);
+      body = peeked.body;
+      if (peeked.ended && peeked.size < threshold) encoding = null;
+    }
+
+    if (encoding) {
+      headers.set("Content-Encoding", encoding);
+      headers.delete("Content-Length");
+      // Byte ranges would refer to the uncompressed body
+      headers.delete("Accept-Ranges");
+
+      const etag = headers.get("ETag");
+      if (etag) {
+        const match = /^(?:W\/)?"(.*)"$/.exec(etag);
+        headers.set("ETag", match ? `W/"${match[1]}-${encoding}"` : etag);
       }
-    } else {
-      requests.set(ip, { count: 1, resetTime: now + options.windowMs });
     }
 
-    return next();
+    return new Response(
+      encoding ? body.pipeThrough(new CompressionStream(COMPRESSION_FORMATS[encoding] as CompressionFormat)) : body,
+      {
+        status: response.status,
+        statusText: response.statusText,
+        headers,
+      },
+    );
   };
-} 
\ No newline at end of file
+}
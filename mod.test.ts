@@ -1,5 +1,39 @@
-import { XebecServer } from "./mod.ts"; // Adjust the import path as needed
-import { assertEquals } from "https://deno.land/std@0.177.0/testing/asserts.ts";
+import {
+  XebecServer,
+  ResponseHelper,
+  SSEChannel,
+  v,
+  serveStatic,
+  compress,
+  cors,
+  logger,
+  testClient,
+  TestResponse,
+  LogEntry,
+  session,
+  rateLimit,
+  jwt,
+  signJwt,
+  bearerAuth,
+  basicAuth,
+  authorize,
+  csrf,
+  Conflict,
+  HttpError,
+  ServiceUnavailable,
+  MemoryRateLimitStore,
+  setCookie,
+  deleteCookie,
+  setSignedCookie,
+  signValue,
+  unsignValue,
+  encryptValue,
+  decryptValue,
+  type PathParams,
+  type Req,
+  type Middleware,
+} from "./mod.ts"; // Adjust the import path as needed
+import { assertEquals, assertNotEquals, assertThrows } from "https://deno.land/std@0.177.0/testing/asserts.ts";
 
 // Test the XebecServer class
 Deno.test("XebecServer - Basic GET route", async () => {
@@ -95,7 +129,7 @@ Deno.test("XebecServer - 404 Not Found", async () => {
   const response = await app.handler(request);
 
   const body = await response.json();
-  assertEquals(body.error, "Not found");
+  assertEquals(body.title, "Not Found");
   assertEquals(response.status, 404);
 });
 
@@ -196,4 +230,1355 @@ Deno.test("XebecServer - File upload", async () => {
 
   assertEquals(await response.text(), "File uploaded");
   assertEquals(response.status, 200);
-});
\ No newline at end of file
+});
+Deno.test("XebecServer - listen and close", async () => {
+  const app = new XebecServer();
+
+  app.GET("/ping", () => {
+    return new Response("pong");
+  });
+
+  let listening = false;
+  let closed = false;
+  const server = app.listen({
+    port: 0,
+    hostname: "127.0.0.1",
+    onListen: () => { listening = true; },
+    onClose: () => { closed = true; },
+  });
+
+  assertEquals(listening, true);
+
+  const response = await fetch(`http://127.0.0.1:${server.addr.port}/ping`);
+  assertEquals(await response.text(), "pong");
+  assertEquals(response.status, 200);
+
+  await server.close();
+  await server.finished;
+  assertEquals(closed, true);
+});
+
+Deno.test("XebecServer - close aborts requests still running after the shutdown timeout", async () => {
+  const app = new XebecServer();
+
+  let aborted: unknown;
+  app.GET("/stream", (req) => {
+    req.signal.addEventListener("abort", () => { aborted = req.signal.reason; });
+    // Never ends on its own
+    return new Response(new ReadableStream({ start: (controller) => controller.enqueue(new TextEncoder().encode("open")) }));
+  });
+
+  let closed = false;
+  const server = app.listen({
+    port: 0,
+    hostname: "127.0.0.1",
+    handleSignals: false,
+    shutdownTimeout: 100,
+    onClose: () => { closed = true; },
+  });
+
+  const response = await fetch(`http://127.0.0.1:${server.addr.port}/stream`);
+  const reader = response.body!.getReader();
+  await reader.read();
+
+  const started = Date.now();
+  await server.close();
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const settled = await Promise.race([
+    server.finished.then(() => true),
+    new Promise<boolean>((resolve) => { timer = setTimeout(() => resolve(false), 2000); }),
+  ]);
+  clearTimeout(timer);
+  await reader.cancel().catch(() => {});
+
+  assertEquals(settled, true);
+  assertEquals(closed, true);
+  assertEquals(Date.now() - started < 1500, true);
+  assertEquals(aborted instanceof ServiceUnavailable, true);
+});
+
+Deno.test("XebecServer - Failing multipart sinks answer instead of hanging", async () => {
+  const app = new XebecServer();
+
+  app.POST("/throws", () => new Response("stored"), {
+    options: { multipart: { sink: () => { throw new Error("disk full"); } } },
+  });
+  app.POST("/rejects", () => new Response("stored"), {
+    options: { multipart: { sink: async ({ stream }) => { await stream.getReader().read(); throw new Conflict("Already uploaded"); } } },
+  });
+  app.POST("/ignores", () => new Response("stored"), {
+    options: { multipart: { sink: () => Promise.resolve("ignored") } },
+  });
+
+  const upload = async (path: string) => {
+    const formData = new FormData();
+    formData.append("file", new File(["x".repeat(256 * 1024)], "big.txt", { type: "text/plain" }));
+    const response = await app.handler(new Request(`http://localhost:8080${path}`, { method: "POST", body: formData }));
+    await response.body?.cancel();
+    return response.status;
+  };
+
+  assertEquals(await upload("/throws"), 500);
+  assertEquals(await upload("/rejects"), 409);
+  assertEquals(await upload("/ignores"), 500);
+});
+
+Deno.test("XebecServer - Route ranking ignores registration order", async () => {
+  const app = new XebecServer();
+
+  app.GET("/files/*path", (req) => new Response(`wildcard: ${req.params.path}`));
+  app.GET("/files/:name", (req) => new Response(`param: ${req.params.name}`));
+  app.GET("/files/:id(\\d+)", (req) => new Response(`id: ${req.params.id}`));
+  app.GET("/files/latest", () => new Response("static"));
+
+  const get = async (path: string) =>
+    await (await app.handler(new Request(`http://localhost:8080${path}`))).text();
+
+  assertEquals(await get("/files/latest"), "static");
+  assertEquals(await get("/files/42"), "id: 42");
+  assertEquals(await get("/files/report.pdf"), "param: report.pdf");
+  assertEquals(await get("/files/docs/2024/report.pdf"), "wildcard: docs/2024/report.pdf");
+});
+
+Deno.test("XebecServer - Optional params", async () => {
+  const app = new XebecServer();
+
+  app.GET("/posts/:page?", (req) => new Response(`page: ${req.params.page ?? "none"}`));
+
+  const first = await app.handler(new Request("http://localhost:8080/posts"));
+  assertEquals(await first.text(), "page: none");
+
+  const second = await app.handler(new Request("http://localhost:8080/posts/2"));
+  assertEquals(await second.text(), "page: 2");
+});
+
+Deno.test("XebecServer - Conflicting routes are rejected", async () => {
+  const app = new XebecServer();
+
+  app.GET("/user/:id", () => new Response("first"));
+  app.POST("/user/:name", () => new Response("other method"));
+
+  assertThrows(() => app.GET("/user/:name", () => new Response("second")), Error, "Route conflict");
+
+  // A conflict of one optional param variant registers none of them
+  assertThrows(() => app.GET("/user/:name?", () => new Response("third")), Error, "Route conflict");
+  assertEquals((await app.handler(new Request("http://localhost/user"))).status, 404);
+  app.GET("/user", () => new Response("users"));
+});
+
+Deno.test("XebecServer - 405 Method Not Allowed", async () => {
+  const app = new XebecServer();
+
+  app.GET("/items/:id", () => new Response("item"));
+  app.DELETE("/items/:id", () => new Response("deleted"));
+
+  const request = new Request("http://localhost:8080/items/1", { method: "POST" });
+  const response = await app.handler(request);
+
+  const body = await response.json();
+  assertEquals(body.title, "Method Not Allowed");
+  assertEquals(response.status, 405);
+  assertEquals(response.headers.get("Allow"), "DELETE, GET, HEAD, OPTIONS");
+
+  // A catch-all OPTIONS route does not turn unknown paths into 405s
+  app.OPTIONS("*", () => new Response(null, { status: 204 }));
+  assertEquals((await app.handler(new Request("http://localhost:8080/nope"))).status, 404);
+  assertEquals((await app.handler(new Request("http://localhost:8080/items/1", { method: "PUT" }))).status, 405);
+});
+
+Deno.test("XebecServer - Automatic HEAD and OPTIONS", async () => {
+  const app = new XebecServer();
+  const nestedApp = new XebecServer();
+
+  nestedApp.GET("/status", () => new Response("ok", { headers: { "X-Status": "up" } }));
+  nestedApp.PUT("/status", () => new Response("updated"));
+  app.route("/api", nestedApp);
+
+  const head = await app.handler(new Request("http://localhost:8080/api/status", { method: "HEAD" }));
+  assertEquals(head.status, 200);
+  assertEquals(head.headers.get("X-Status"), "up");
+  assertEquals(head.body, null);
+
+  const options = await app.handler(new Request("http://localhost:8080/api/status", { method: "OPTIONS" }));
+  assertEquals(options.status, 204);
+  assertEquals(options.headers.get("Allow"), "GET, HEAD, OPTIONS, PUT");
+
+  const post = await app.handler(new Request("http://localhost:8080/api/status", { method: "POST" }));
+  assertEquals(post.status, 405);
+  assertEquals(post.headers.get("Allow"), "GET, HEAD, OPTIONS, PUT");
+  await post.body?.cancel();
+});
+
+Deno.test("XebecServer - Schema validation with coercion", async () => {
+  const app = new XebecServer();
+
+  app.POST("/orders/:id", (req) => {
+    const total: number = req.body.quantity * req.query.price;
+    return new Response(`${req.params.id}: ${total} (${req.body.express})`);
+  }, {
+    schema: {
+      params: v.object({ id: v.number({ integer: true }) }),
+      query: v.object({ price: v.number() }),
+      body: v.object({ quantity: v.number({ min: 1 }), express: v.optional(v.boolean()) }),
+    },
+  });
+
+  const request = new Request("http://localhost:8080/orders/7?price=2.5", {
+    method: "POST",
+    headers: { "content-type": "application/json" },
+    body: JSON.stringify({ quantity: "4", express: "true" }),
+  });
+  const response = await app.handler(request);
+
+  assertEquals(await response.text(), "7: 10 (true)");
+  assertEquals(response.status, 200);
+});
+
+Deno.test("XebecServer - Schema validation failures", async () => {
+  const app = new XebecServer();
+  const schema = {
+    query: v.object({ page: v.number() }),
+    body: v.object({ email: v.string({ pattern: /@/ }), tags: v.array(v.string()) }),
+  };
+
+  app.POST("/users", () => new Response("created"), { schema });
+
+  const invalidBody = await app.handler(new Request("http://localhost:8080/users?page=1", {
+    method: "POST",
+    headers: { "content-type": "application/json" },
+    body: JSON.stringify({ email: "nope", tags: ["a", 1] }),
+  }));
+  assertEquals(invalidBody.status, 422);
+  assertEquals((await invalidBody.json()).issues.map((issue: { path: string }) => issue.path), [
+    "body.email",
+    "body.tags.1",
+  ]);
+
+  const invalidQuery = await app.handler(new Request("http://localhost:8080/users?page=first", {
+    method: "POST",
+    headers: { "content-type": "application/json" },
+    body: JSON.stringify({ email: "a@b.c", tags: [] }),
+  }));
+  assertEquals(invalidQuery.status, 400);
+  assertEquals((await invalidQuery.json()).issues[0].path, "query.page");
+});
+
+Deno.test("XebecServer - Params typed from the path", async () => {
+  const app = new XebecServer();
+  const posts = new XebecServer<PathParams<"/users/:uid">>();
+
+  posts.GET("/posts/:postId/*rest", (req) => {
+    const { uid, postId, rest }: { uid: string; postId: string; rest: string } = req.params;
+    // @ts-expect-error params not declared by the path are rejected
+    req.params.ID;
+    return new Response(`${uid}/${postId}/${rest}`);
+  });
+
+  app.route("/users/:uid", posts);
+
+  const response = await app.handler(new Request("http://localhost:8080/users/7/posts/3/comments/1"));
+  assertEquals(await response.text(), "7/3/comments/1");
+
+  const sibling = await app.handler(new Request("http://localhost:8080/usersx/7/posts/3/a"));
+  assertEquals(sibling.status, 404);
+  await sibling.body?.cancel();
+});
+
+Deno.test("serveStatic - Files, conditional and range requests", async () => {
+  const app = new XebecServer();
+  const assets = new XebecServer();
+  assets.use(serveStatic("."));
+  app.route("/static", assets);
+
+  const response = await app.handler(new Request("http://localhost:8080/static/sample.txt"));
+  const text = await response.text();
+  assertEquals(response.status, 200);
+  assertEquals(response.headers.get("Content-Type"), "text/plain; charset=utf-8");
+  assertEquals(text.startsWith("Once uppon a time"), true);
+
+  const etag = response.headers.get("ETag")!;
+  const cached = await app.handler(new Request("http://localhost:8080/static/sample.txt", {
+    headers: { "If-None-Match": etag },
+  }));
+  assertEquals(cached.status, 304);
+
+  const partial = await app.handler(new Request("http://localhost:8080/static/sample.txt", {
+    headers: { Range: "bytes=0-3" },
+  }));
+  assertEquals(partial.status, 206);
+  assertEquals(partial.headers.get("Content-Range"), `bytes 0-3/${new TextEncoder().encode(text).length}`);
+  assertEquals(await partial.text(), "Once");
+
+  const unsatisfiable = await app.handler(new Request("http://localhost:8080/static/sample.txt", {
+    headers: { Range: "bytes=100000-" },
+  }));
+  assertEquals(unsatisfiable.status, 416);
+});
+
+Deno.test("serveStatic - Blocks traversal and dotfiles", async () => {
+  const app = new XebecServer();
+  app.use(serveStatic("."));
+
+  const traversal = await app.handler(new Request("http://localhost:8080/..%2fmod.ts"));
+  assertEquals(traversal.status, 403);
+  await traversal.body?.cancel();
+
+  const dotfile = await app.handler(new Request("http://localhost:8080/.vscode/settings.json"));
+  assertEquals(dotfile.status, 404);
+  await dotfile.body?.cancel();
+});
+
+Deno.test("XebecServer - Streaming multipart uploads", async () => {
+  const app = new XebecServer();
+
+  app.POST("/upload", (req) => {
+    const [file] = req.files;
+    return Response.json({ fields: req.body, filename: file.filename, size: file.size, data: file.data });
+  }, {
+    options: {
+      multipart: {
+        maxFileSize: 64,
+        allowedTypes: ["text/*"],
+        sink: ({ stream }) => new Response(stream).text(),
+      },
+    },
+  });
+
+  const formData = new FormData();
+  formData.append("title", "Story");
+  formData.append("file", new File(["Once uppon a time"], "../../etc/sample.txt", { type: "text/plain" }));
+
+  const response = await app.handler(new Request("http://localhost:8080/upload", { method: "POST", body: formData }));
+  assertEquals(await response.json(), {
+    fields: { title: "Story" },
+    filename: "sample.txt",
+    size: 17,
+    data: "Once uppon a time",
+  });
+
+  const tooLarge = new FormData();
+  tooLarge.append("file", new File(["x".repeat(100)], "big.txt", { type: "text/plain" }));
+  const tooLargeResponse = await app.handler(new Request("http://localhost:8080/upload", { method: "POST", body: tooLarge }));
+  assertEquals(tooLargeResponse.status, 413);
+  await tooLargeResponse.body?.cancel();
+
+  const wrongType = new FormData();
+  wrongType.append("file", new File(["{}"], "data.json", { type: "application/json" }));
+  const wrongTypeResponse = await app.handler(new Request("http://localhost:8080/upload", { method: "POST", body: wrongType }));
+  assertEquals(wrongTypeResponse.status, 415);
+  await wrongTypeResponse.body?.cancel();
+});
+
+Deno.test("XebecServer - Body limits on streamed bodies", async () => {
+  const app = new XebecServer({ maxBodySize: 16, bodyTimeout: 50 });
+
+  app.POST("/echo", async (req) => new Response(await req.text()));
+  app.POST("/import", async (req) => new Response(`${(await req.text()).length}`), {
+    options: { maxBodySize: { "text/csv": 1024, "*": 8 } },
+  });
+
+  // A chunked body without Content-Length
+  const chunked = (size: number) => new ReadableStream<Uint8Array>({
+    start(controller) {
+      controller.enqueue(new Uint8Array(size).fill(97));
+      controller.close();
+    },
+  });
+
+  const tooLarge = await app.handler(new Request("http://localhost:8080/echo", { method: "POST", body: chunked(32) }));
+  assertEquals(tooLarge.status, 413);
+  await tooLarge.body?.cancel();
+
+  const csv = await app.handler(new Request("http://localhost:8080/import", {
+    method: "POST",
+    headers: { "content-type": "text/csv" },
+    body: chunked(512),
+  }));
+  assertEquals(await csv.text(), "512");
+
+  const json = await app.handler(new Request("http://localhost:8080/import", {
+    method: "POST",
+    headers: { "content-type": "application/json" },
+    body: chunked(12),
+  }));
+  assertEquals(json.status, 413);
+  await json.body?.cancel();
+
+  // A client that stops sending
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const stalled = new ReadableStream<Uint8Array>({
+    pull() {
+      return new Promise((resolve) => {
+        timer = setTimeout(resolve, 500);
+      });
+    },
+  });
+  const slow = await app.handler(new Request("http://localhost:8080/echo", { method: "POST", body: stalled }));
+  clearTimeout(timer);
+  assertEquals(slow.status, 408);
+  await slow.body?.cancel();
+});
+
+Deno.test("XebecServer - Cookies", async () => {
+  const app = new XebecServer();
+  const secrets = ["new-secret", "old-secret"];
+
+  app.GET("/prefs", async (req) => {
+    const response = new Response(`theme: ${req.cookies.theme}`);
+    setCookie(response, "lang", "en US", { maxAge: 3600, sameSite: "None", partitioned: true });
+    deleteCookie(response, "legacy");
+    await setSignedCookie(response, "user", "42", secrets);
+    return response;
+  });
+
+  const response = await app.handler(new Request("http://localhost:8080/prefs", {
+    headers: { cookie: "theme=dark; other=1" },
+  }));
+  assertEquals(await response.text(), "theme: dark");
+
+  const [lang, legacy, user] = response.headers.getSetCookie();
+  assertEquals(lang, "lang=en%20US; Path=/; Max-Age=3600; Secure; SameSite=None; Partitioned");
+  assertEquals(legacy, "legacy=; Path=/; Expires=Thu, 01 Jan 1970 00:00:00 GMT; Max-Age=0");
+
+  const signed = user.split(";")[0].slice("user=".length);
+  assertEquals(await unsignValue(decodeURIComponent(signed), secrets), "42");
+  assertEquals(await unsignValue(decodeURIComponent(signed).replace("42", "43"), secrets), null);
+
+  // Values signed or encrypted with an older secret still verify after rotation
+  const rotated = await signValue("42", ["old-secret"]);
+  assertEquals(await unsignValue(rotated, secrets), "42");
+  assertEquals(await decryptValue(await encryptValue("secret", ["old-secret"]), secrets), "secret");
+});
+
+Deno.test("XebecServer - Sessions", async () => {
+  const app = new XebecServer();
+  app.use(session({ secret: "session-secret" }));
+
+  app.GET("/visit", (req) => new Response(`visits: ${req.session!.get<number>("visits") ?? 0}`));
+  app.POST("/visit", (req) => {
+    req.session!.set("visits", (req.session!.get<number>("visits") ?? 0) + 1);
+    return new Response("counted");
+  });
+  app.POST("/login", (req) => {
+    req.session!.regenerate();
+    return new Response("logged in");
+  });
+  app.POST("/logout", (req) => {
+    req.session!.destroy();
+    return new Response("logged out");
+  });
+
+  const send = (method: string, path: string, cookie?: string) =>
+    app.handler(new Request(`http://localhost:8080${path}`, { method, headers: cookie ? { cookie } : {} }));
+  const cookieOf = (response: Response) => response.headers.getSetCookie()[0]?.split(";")[0];
+
+  // Unchanged sessions are not saved
+  const anonymous = await send("GET", "/visit");
+  assertEquals(anonymous.headers.getSetCookie(), []);
+  await anonymous.body?.cancel();
+
+  const first = await send("POST", "/visit");
+  const cookie = cookieOf(first);
+  await first.body?.cancel();
+  await (await send("POST", "/visit", cookie)).body?.cancel();
+  assertEquals(await (await send("GET", "/visit", cookie)).text(), "visits: 2");
+
+  // Regeneration keeps the data under a new id and invalidates the old one
+  const login = await send("POST", "/login", cookie);
+  const newCookie = cookieOf(login);
+  await login.body?.cancel();
+  assertNotEquals(newCookie, cookie);
+  assertEquals(await (await send("GET", "/visit", newCookie)).text(), "visits: 2");
+  assertEquals(await (await send("GET", "/visit", cookie)).text(), "visits: 0");
+
+  const logout = await send("POST", "/logout", newCookie);
+  assertEquals(logout.headers.getSetCookie()[0].includes("Max-Age=0"), true);
+  await logout.body?.cancel();
+  assertEquals(await (await send("GET", "/visit", newCookie)).text(), "visits: 0");
+});
+
+Deno.test("XebecServer - WebSocket routes", async () => {
+  const app = new XebecServer();
+  const chat = new XebecServer<{ room: string }>();
+
+  chat.WS("/ws", {
+    onOpen: (ws) => {
+      ws.subscribe(ws.params.room);
+      ws.send("ready");
+    },
+    onMessage: (ws, message) => {
+      ws.send(`echo ${message}`);
+      ws.publish(ws.params.room, `${ws.protocol}: ${message}`);
+    },
+  }, { protocols: ["chat"], idleTimeout: 0 });
+  app.route("/rooms/:room", chat);
+
+  const upgrade = await app.handler(new Request("http://localhost/rooms/a/ws"));
+  assertEquals(upgrade.status, 426);
+  assertEquals(upgrade.headers.get("Upgrade"), "websocket");
+  await upgrade.body?.cancel();
+
+  const server = app.listen({ port: 0, hostname: "127.0.0.1", handleSignals: false });
+  const connect = (): Promise<{ socket: WebSocket; messages: string[] }> => {
+    const socket = new WebSocket(`ws://127.0.0.1:${server.addr.port}/rooms/a/ws`, ["chat"]);
+    const messages: string[] = [];
+    socket.onmessage = (event) => messages.push(event.data);
+    return new Promise((resolve) => (socket.onopen = () => resolve({ socket, messages })));
+  };
+  const waitFor = async (check: () => boolean) => {
+    while (!check()) await new Promise((resolve) => setTimeout(resolve, 5));
+  };
+
+  const first = await connect();
+  const second = await connect();
+  assertEquals(first.socket.protocol, "chat");
+  await waitFor(() => first.messages.length === 1 && second.messages.length === 1);
+
+  assertEquals(chat.publish("a", "hello"), 2);
+  await waitFor(() => first.messages.length === 2 && second.messages.length === 2);
+  assertEquals(first.messages, ["ready", "hello"]);
+
+  first.socket.send("hi");
+  await waitFor(() => first.messages.length === 3 && second.messages.length === 3);
+  assertEquals(first.messages[2], "echo hi");
+  assertEquals(second.messages[2], "chat: hi");
+
+  const closed = (socket: WebSocket) => new Promise((resolve) => (socket.onclose = resolve));
+  const closing = [closed(first.socket), closed(second.socket)];
+  first.socket.close();
+  second.socket.close();
+  await Promise.all(closing);
+  await server.close();
+});
+
+Deno.test("ResponseHelper - Server-Sent Events", async () => {
+  const app = new XebecServer();
+  const channel = new SSEChannel({ historySize: 2 });
+  let aborted: Promise<unknown> = Promise.resolve();
+
+  app.GET("/progress", () => {
+    return ResponseHelper.sse(async (stream) => {
+      stream.send({ event: "progress", id: 1, data: { done: 50 } });
+      stream.send({ data: "line one\nline two" });
+      await Promise.resolve();
+      stream.comment("bye");
+    }, { retry: 1000, heartbeat: 0 });
+  });
+  app.GET("/events", (req) => {
+    return ResponseHelper.sse((stream) => {
+      aborted = new Promise((resolve) => stream.signal.addEventListener("abort", resolve));
+    }, { request: req, channel, heartbeat: 0 });
+  });
+
+  const progress = await app.handler(new Request("http://localhost/progress"));
+  assertEquals(progress.headers.get("Content-Type"), "text/event-stream; charset=utf-8");
+  assertEquals(
+    await progress.text(),
+    'retry: 1000\n\nevent: progress\nid: 1\ndata: {"done":50}\n\ndata: line one\ndata: line two\n\n: bye\n\n',
+  );
+
+  channel.send({ data: "a" });
+  channel.send({ data: "b" });
+  channel.send({ data: "c" });
+
+  const resumed = await app.handler(new Request("http://localhost/events", { headers: { "Last-Event-ID": "2" } }));
+  const reader = resumed.body!.getReader();
+  const decoder = new TextDecoder();
+  assertEquals(decoder.decode((await reader.read()).value), "id: 3\ndata: c\n\n");
+  assertEquals(channel.size, 1);
+
+  assertEquals(channel.send({ event: "ping", data: "d" }), 1);
+  assertEquals(decoder.decode((await reader.read()).value), "event: ping\nid: 4\ndata: d\n\n");
+
+  // The client disconnects
+  await reader.cancel();
+  await aborted;
+  assertEquals(channel.size, 0);
+});
+
+Deno.test("compress - Negotiates and streams compression", async () => {
+  const app = new XebecServer();
+  const payload = { items: Array.from({ length: 200 }, (_, i) => ({ id: i, name: `item ${i}` })) };
+  let sendNext = () => {};
+
+  app.use(compress({ threshold: 100 }));
+  app.GET("/data", () => ResponseHelper.json(payload, 200, { ETag: '"v1"' }));
+  app.GET("/small", () => new Response("tiny", { headers: { "Content-Type": "text/plain", "Content-Length": "4" } }));
+  app.GET("/raw", () => ResponseHelper.json(payload, 200, { "Cache-Control": "no-transform" }));
+  app.GET("/short", () => ResponseHelper.json({ ok: true }));
+  app.GET("/image", () => new Response(new Uint8Array(2048), { headers: { "Content-Type": "image/png" } }));
+  app.GET("/events", () => {
+    return ResponseHelper.sse(async (stream) => {
+      stream.send({ data: "first" });
+      await new Promise<void>((resolve) => (sendNext = resolve));
+      stream.send({ data: "second" });
+    }, { heartbeat: 0 });
+  });
+
+  const get = (path: string, encoding = "gzip, deflate;q=0.5") =>
+    app.handler(new Request(`http://localhost${path}`, { headers: { "Accept-Encoding": encoding } }));
+
+  const gzip = await get("/data");
+  assertEquals(gzip.headers.get("Content-Encoding"), "gzip");
+  assertEquals(gzip.headers.get("Vary"), "Accept-Encoding");
+  assertEquals(gzip.headers.get("ETag"), 'W/"v1-gzip"');
+  const text = await new Response(gzip.body!.pipeThrough(new DecompressionStream("gzip"))).text();
+  assertEquals(JSON.parse(text), payload);
+
+  const deflate = await get("/data", "gzip;q=0.2, deflate");
+  assertEquals(deflate.headers.get("Content-Encoding"), "deflate");
+  await deflate.body?.cancel();
+
+  const identity = await get("/data", "identity");
+  assertEquals(identity.headers.get("Content-Encoding"), null);
+  assertEquals(identity.headers.get("Vary"), "Accept-Encoding");
+  await identity.body?.cancel();
+
+  for (const path of ["/small", "/raw", "/image"]) {
+    const response = await get(path);
+    assertEquals(response.headers.get("Content-Encoding"), null);
+    await response.body?.cancel();
+  }
+
+  // Bodies without Content-Length are measured before deciding
+  const short = await get("/short");
+  assertEquals(short.headers.get("Content-Encoding"), null);
+  assertEquals(await short.json(), { ok: true });
+
+  // Each event is flushed as it is written
+  const events = await get("/events");
+  assertEquals(events.headers.get("Content-Encoding"), "gzip");
+  const reader = events.body!.pipeThrough(new DecompressionStream("gzip")).pipeThrough(new TextDecoderStream()).getReader();
+  assertEquals((await reader.read()).value, "data: first\n\n");
+  sendNext();
+  assertEquals((await reader.read()).value, "data: second\n\n");
+  assertEquals((await reader.read()).done, true);
+});
+
+Deno.test("logger - Access logs with request IDs", async () => {
+  const entries: LogEntry[] = [];
+  const app = new XebecServer();
+  const users = new XebecServer<{ org: string }>();
+
+  app.use(logger({ sink: (entry) => entries.push(entry), headers: true }));
+  users.GET("/users/:id", (req) => ResponseHelper.text(`user ${req.params.id}`));
+  app.route("/orgs/:org", users);
+  app.GET("/fail", () => {
+    throw new Error("boom");
+  });
+  app.GET("/archive", () => {
+    throw new Conflict("Already archived");
+  });
+
+  const response = await app.handler(new Request("http://localhost/orgs/acme/users/7?token=abc&page=2", {
+    headers: { "X-Request-Id": "req-1", Authorization: "Bearer secret" },
+  }));
+  assertEquals(response.headers.get("X-Request-Id"), "req-1");
+  assertEquals(entries.length, 0);
+  assertEquals(await response.text(), "user 7");
+
+  const [entry] = entries;
+  assertEquals(entry.route, "/orgs/:org/users/:id");
+  assertEquals([entry.method, entry.status, entry.bytes], ["GET", 200, 6]);
+  assertEquals(entry.query, { token: "[REDACTED]", page: "2" });
+  assertEquals(entry.headers?.authorization, "[REDACTED]");
+
+  // Unsafe IDs are replaced
+  const generated = await app.handler(new Request("http://localhost/missing", { headers: { "X-Request-Id": "a b\n" } }));
+  await generated.body?.cancel();
+  assertNotEquals(generated.headers.get("X-Request-Id"), "a b\n");
+  assertEquals(entries[1].route, null);
+  assertEquals(entries[1].status, 404);
+
+  await (await app.handler(new Request("http://localhost/fail"))).body?.cancel();
+  assertEquals(entries[2].error, "boom");
+  assertEquals(entries[2].status, 500);
+  // Thrown HttpErrors are logged with the status they are answered with
+  await (await app.handler(new Request("http://localhost/archive"))).body?.cancel();
+  assertEquals([entries[3].status, entries[3].error], [409, "Already archived"]);
+
+  // Sampling never drops server errors
+  const sampled: LogEntry[] = [];
+  const quiet = new XebecServer();
+  quiet.use(logger({ sampleRate: 0, sink: (entry) => sampled.push(entry) }));
+  quiet.GET("/ok", () => new Response("ok"));
+  quiet.GET("/down", () => new Response("down", { status: 503 }));
+  await (await quiet.handler(new Request("http://localhost/ok"))).text();
+  await (await quiet.handler(new Request("http://localhost/down"))).text();
+  assertEquals(sampled.map((entry) => entry.status), [503]);
+});
+
+Deno.test("XebecServer - Debug mode traces middleware and routes", async () => {
+  const app = new XebecServer({ debug: true });
+  const admin = new XebecServer();
+  const lines: string[] = [];
+
+  app.use(cors());
+  app.use(function auth(_req, next) {
+    return next();
+  });
+  admin.GET("/stats", (req) => ResponseHelper.json({ id: req.id }), {
+    middleware: [function audit(_req, next) {
+      return next();
+    }, compress()],
+  });
+  app.route("/admin", admin);
+
+  const log = console.log;
+  console.log = (line: string) => lines.push(line);
+  try {
+    const response = await app.handler(new Request("http://localhost/admin/stats"));
+    const { id } = await response.json();
+    assertEquals(response.headers.get("X-Request-Id"), id);
+  } finally {
+    console.log = log;
+  }
+
+  assertEquals(lines.length, 1);
+  assertEquals(lines[0].includes("GET /admin/stats 200"), true);
+  assertEquals(lines[0].endsWith("via cors > auth > mount /admin > route GET /stats > audit > compress"), true);
+});
+
+Deno.test("XebecServer - Default headers and response hooks", async () => {
+  const app = new XebecServer({
+    defaultHeaders: { "X-Powered-By": "Xebec", "Cache-Control": "no-store" },
+    maxBodySize: 10,
+  });
+  const api = new XebecServer({ defaultHeaders: { "X-Api-Version": "2" } });
+  const seen: number[] = [];
+
+  app.onResponse((_req, response) => {
+    seen.push(response.status);
+    response.headers.set("X-Served-By", "app");
+  });
+  app.GET("/page", () => ResponseHelper.text("page", 200, { "Cache-Control": "max-age=60" }), {
+    headers: { "Cache-Control": "public", "X-Frame-Options": "DENY" },
+  });
+  app.GET("/moved", () => Response.redirect("http://localhost/page", 301));
+  app.GET("/fail", () => {
+    throw new Error("boom");
+  });
+  app.POST("/upload", async (req) => new Response(await req.text()));
+  api.GET("/status", () => ResponseHelper.json({ ok: true }));
+  app.route("/api", api);
+
+  const send = async (path: string, init?: RequestInit) => {
+    const response = await app.handler(new Request(`http://localhost${path}`, init));
+    await response.body?.cancel();
+    return response.headers;
+  };
+
+  // Response headers win over route headers, which win over default headers
+  const page = await send("/page");
+  assertEquals(page.get("Cache-Control"), "max-age=60");
+  assertEquals(page.get("X-Frame-Options"), "DENY");
+  assertEquals(page.get("X-Powered-By"), "Xebec");
+
+  // Hooks can change the immutable headers of redirects
+  assertEquals((await send("/moved")).get("X-Served-By"), "app");
+
+  for (const headers of [await send("/missing"), await send("/fail"), await send("/upload", { method: "POST", body: "x".repeat(20) })]) {
+    assertEquals(headers.get("X-Powered-By"), "Xebec");
+    assertEquals(headers.get("Cache-Control"), "no-store");
+  }
+
+  const status = await send("/api/status");
+  assertEquals(status.get("X-Api-Version"), "2");
+  assertEquals(status.get("X-Powered-By"), "Xebec");
+  assertEquals(status.get("X-Served-By"), "app");
+  assertEquals(seen, [200, 301, 404, 500, 413, 200]);
+});
+
+Deno.test("XebecServer - Content negotiation", async () => {
+  const app = new XebecServer();
+  const reports = new XebecServer();
+  const rows = [{ id: 1, name: "Ada" }, { id: 2, name: 'Grace "Amazing", Hopper' }];
+
+  app.serializer("application/vnd.rows+text", (data) => (data as typeof rows).map((row) => row.name).join("|"));
+  app.GET("/users", (req) => req.send(rows));
+  app.GET("/stream", (req) => {
+    async function* generate() {
+      yield rows[0];
+      yield rows[1];
+    }
+    return req.send(generate(), { formats: ["application/x-ndjson"] });
+  });
+  app.GET("/static", (req) => ResponseHelper.negotiate(req, { ok: true }, { formats: ["application/json", "text/plain"] }));
+  reports.GET("/rows", (req) => req.send(rows, { status: 201 }));
+  app.route("/reports", reports);
+
+  const get = (path: string, accept?: string) =>
+    app.handler(new Request(`http://localhost${path}`, { headers: accept ? { Accept: accept } : {} }));
+
+  const json = await get("/users");
+  assertEquals(json.headers.get("Content-Type"), "application/json");
+  assertEquals(json.headers.get("Vary"), "Accept");
+  assertEquals(await json.json(), rows);
+
+  const csv = await get("/users", "application/json;q=0.5, text/csv");
+  assertEquals(csv.headers.get("Content-Type"), "text/csv; charset=utf-8");
+  assertEquals(await csv.text(), 'id,name\r\n1,Ada\r\n2,"Grace ""Amazing"", Hopper"\r\n');
+
+  // The most specific range decides, text/plain is excluded
+  const wildcard = await get("/users", "text/*;q=0.8, text/plain;q=0, application/json;q=0.1");
+  assertEquals(wildcard.headers.get("Content-Type"), "text/csv; charset=utf-8");
+  await wildcard.body?.cancel();
+
+  const ndjson = await get("/stream", "*/*");
+  assertEquals(await ndjson.text(), '{"id":1,"name":"Ada"}\n{"id":2,"name":"Grace \\"Amazing\\", Hopper"}\n');
+
+  const rejected = await get("/static", "application/xml");
+  assertEquals(rejected.status, 406);
+  assertEquals((await rejected.json()).accepted, ["application/json", "text/plain"]);
+
+  const custom = await get("/reports/rows", "application/vnd.rows+text");
+  assertEquals(custom.status, 201);
+  assertEquals(await custom.text(), 'Ada|Grace "Amazing", Hopper');
+});
+
+Deno.test("XebecServer - Route listing and OpenAPI document", async () => {
+  const app = new XebecServer();
+  const users = new XebecServer<{ org: string }>();
+
+  users.GET("/users/:id(\\d+)", (req) => ResponseHelper.json({ id: req.params.id }), {
+    summary: "Get a user",
+    tags: ["users"],
+    schema: {
+      params: v.object({ id: v.number({ integer: true }) }),
+      query: v.object({ fields: v.optional(v.string()) }),
+    },
+    responses: { 200: { description: "The user", schema: v.object({ id: v.number() }) } },
+  });
+  users.POST("/users", () => new Response(null, { status: 201 }), {
+    schema: { body: v.object({ name: v.string({ min: 1 }) }) },
+    responses: { 201: { description: "Created" } },
+  });
+  users.WS("/live", {});
+  app.GET("/files/:path?", () => new Response("file"));
+  app.route("/orgs/:org", users);
+  app.serveOpenAPI({ info: { title: "Test API", version: "1.0.0" } });
+
+  assertEquals(
+    app.routes().map((route) => [route.method, route.path, route.params]),
+    [
+      ["GET", "/files/:path?", ["path"]],
+      ["GET", "/openapi.json", []],
+      ["GET", "/docs", []],
+      ["GET", "/orgs/:org/users/:id(\\d+)", ["org", "id"]],
+      ["POST", "/orgs/:org/users", ["org"]],
+      ["WS", "/orgs/:org/live", ["org"]],
+    ],
+  );
+
+  const response = await app.handler(new Request("http://localhost/openapi.json"));
+  const document = await response.json();
+  assertEquals(document.openapi, "3.1.0");
+  assertEquals(Object.keys(document.paths), ["/files", "/files/{path}", "/orgs/{org}/users/{id}", "/orgs/{org}/users"]);
+
+  const getUser = document.paths["/orgs/{org}/users/{id}"].get;
+  assertEquals(getUser.summary, "Get a user");
+  assertEquals(getUser.tags, ["users"]);
+  assertEquals(getUser.parameters, [
+    { name: "org", in: "path", required: true, schema: { type: "string" } },
+    { name: "id", in: "path", required: true, schema: { type: "integer" } },
+    { name: "fields", in: "query", required: false, schema: { type: "string" } },
+  ]);
+  assertEquals(getUser.responses["200"].content["application/json"].schema, {
+    type: "object",
+    properties: { id: { type: "number" } },
+    required: ["id"],
+  });
+  assertEquals(Object.keys(getUser.responses), ["200", "400"]);
+
+  const createUser = document.paths["/orgs/{org}/users"].post;
+  assertEquals(createUser.requestBody.content["application/json"].schema.properties.name, { type: "string", minLength: 1 });
+  assertEquals(Object.keys(createUser.responses), ["201", "422"]);
+
+  const docs = await app.handler(new Request("http://localhost/docs"));
+  assertEquals(docs.headers.get("Content-Type"), "text/html; charset=utf-8");
+  assertEquals((await docs.text()).includes('fetch("/openapi.json")'), true);
+
+  const v2 = new XebecServer();
+  v2.serveOpenAPI({ info: { title: "Test API v2", version: "2.0.0" } });
+  app.route("/v2", v2);
+  const mountedDocs = await app.handler(new Request("http://localhost/v2/docs"));
+  assertEquals((await mountedDocs.text()).includes('fetch("/v2/openapi.json")'), true);
+});
+
+Deno.test("testClient - Requests, cookies, SSE and WebSockets", async () => {
+  const app = new XebecServer();
+  let aborted: Promise<unknown> = Promise.resolve();
+
+  app.use(session({ secret: "test-secret" }));
+  app.POST("/login", (req) => {
+    req.session!.set("user", (req.body as unknown as { name: string }).name);
+    return ResponseHelper.json({ ok: true });
+  }, { options: { parseJson: true } });
+  app.GET("/me", (req) => {
+    return ResponseHelper.json({
+      user: req.session!.get("user") ?? null,
+      fields: req.query.fields,
+      ip: req.remoteAddr?.hostname,
+      agent: req.headers.get("user-agent"),
+    });
+  });
+  app.GET("/slow", (req) => {
+    aborted = new Promise((resolve) => req.signal.addEventListener("abort", resolve));
+    return new Response("started");
+  });
+  app.GET("/events", (req) => {
+    return ResponseHelper.sse(async (stream) => {
+      stream.send({ event: "greeting", id: 1, data: "hello\nworld" });
+      stream.send({ event: "client", data: req.ip });
+      await new Promise((resolve) => stream.signal.addEventListener("abort", resolve));
+    }, { request: req, heartbeat: 0 });
+  });
+  app.WS("/echo", {
+    onMessage: (ws, message) => {
+      ws.send(`echo ${message} from ${ws.req.ip}`);
+    },
+  }, { protocols: ["v1"] });
+
+  const client = testClient(app);
+
+  (await client.get("/me")).expectStatus(200).expectJson({ user: null, ip: "127.0.0.1" });
+
+  (await client.post("/login").json({ name: "ada" })).expectStatus(200).expectHeader("Set-Cookie", /^sid=/);
+  assertEquals(client.cookies.has("sid"), true);
+
+  (await client.get("/me").query({ fields: "name" }).header("User-Agent", "tests").ip("10.0.0.7"))
+    .expectJson({ user: "ada", fields: "name", ip: "10.0.0.7", agent: "tests" })
+    .expectHeader("Content-Type", "application/json");
+
+  const failing = new TestResponse(new Response(null), new TextEncoder().encode('{"name":"ada"}'));
+  assertThrows(() => failing.expectJson({ name: "bob" }), Error, 'body.name: expected "bob", received "ada"');
+
+  const controller = new AbortController();
+  (await client.get("/slow").signal(controller.signal)).expectStatus(200);
+  controller.abort();
+  await aborted;
+
+  // Prepared requests keep their IP address
+  const events = await client.sse(client.get("/events").ip("10.9.9.9"));
+  assertEquals(await events.next(), { event: "greeting", id: "1", data: "hello\nworld" });
+  assertEquals((await events.next())?.data, "10.9.9.9");
+  await events.close();
+
+  const socket = await client.websocket(client.get("/echo").ip("10.9.9.9"), ["v1"]);
+  assertEquals(socket.protocol, "v1");
+  socket.send("hi");
+  assertEquals(await socket.next(), "echo hi from 10.9.9.9");
+  assertEquals((await socket.close(1000, "done")).reason, "done");
+
+});
+
+Deno.test("rateLimit - Algorithms, headers and keys", async () => {
+  const store = new MemoryRateLimitStore({ maxKeys: 2 });
+  const app = new XebecServer();
+  const limited: string[] = [];
+
+  app.GET("/fixed", () => new Response("ok"), {
+    middleware: [rateLimit({ windowMs: 60_000, max: 2, store, prefix: "fixed:", allowList: ["10.0.0.1"] })],
+  });
+  app.GET("/bucket", () => new Response("ok"), {
+    middleware: [rateLimit({
+      windowMs: 60_000,
+      max: 1,
+      algorithm: "token-bucket",
+      keyGenerator: (req) => req.headers.get("x-api-key") ?? "anonymous",
+      handler: (_req, info) => {
+        limited.push(info.key);
+        return ResponseHelper.json({ retryIn: info.retryAfter }, 429);
+      },
+    })],
+  });
+  app.GET("/sliding", () => new Response("ok"), {
+    middleware: [rateLimit({ windowMs: 60_000, max: 3, algorithm: "sliding-window", headers: false })],
+  });
+
+  const client = testClient(app);
+
+  (await client.get("/fixed"))
+    .expectStatus(200)
+    .expectHeader("RateLimit-Limit", "2")
+    .expectHeader("RateLimit-Remaining", "1")
+    .expectHeader("RateLimit-Policy", "2;w=60");
+  (await client.get("/fixed")).expectStatus(200).expectHeader("RateLimit-Remaining", "0");
+  const blocked = (await client.get("/fixed")).expectStatus(429).expectHeader("RateLimit-Remaining", "0");
+  assertEquals(Number(blocked.headers.get("Retry-After")) > 0, true);
+
+  // Clients are told apart by their connection, not by X-Forwarded-For
+  (await client.get("/fixed").header("X-Forwarded-For", "1.2.3.4")).expectStatus(429);
+  (await client.get("/fixed").ip("10.0.0.2")).expectStatus(200);
+  for (let i = 0; i < 3; i++) (await client.get("/fixed").ip("10.0.0.1")).expectStatus(200);
+
+  // The store evicts the least recently used keys
+  (await client.get("/fixed").ip("10.0.0.3")).expectStatus(200);
+  assertEquals(store.size, 2);
+  (await client.get("/fixed")).expectStatus(200);
+
+  (await client.get("/bucket").header("x-api-key", "a")).expectStatus(200);
+  (await client.get("/bucket").header("x-api-key", "a")).expectStatus(429).expectJson({ retryIn: 60 });
+  (await client.get("/bucket").header("x-api-key", "b")).expectStatus(200);
+  assertEquals(limited, ["a"]);
+
+  for (let i = 0; i < 3; i++) (await client.get("/sliding")).expectStatus(200).expectHeader("RateLimit-Limit", null);
+  (await client.get("/sliding")).expectStatus(429).expectHeader("RateLimit-Limit", null);
+});
+
+Deno.test("XebecServer - Trusted proxy client info", async () => {
+  const info = (req: Req) => ResponseHelper.json({ ip: req.ip, ips: req.ips, protocol: req.protocol, host: req.host, secure: req.secure });
+
+  const direct = new XebecServer();
+  direct.GET("/", info);
+  (await testClient(direct).get("/").header("X-Forwarded-For", "1.2.3.4").header("X-Forwarded-Proto", "https").ip("10.0.0.1"))
+    .expectJson({ ip: "10.0.0.1", ips: [], protocol: "http", host: "localhost", secure: false });
+
+  const behindProxy = new XebecServer({ trustProxy: ["loopback", "10.0.0.0/8"] });
+  const api = new XebecServer();
+  api.GET("/info", info);
+  behindProxy.route("/api", api);
+  const client = testClient(behindProxy);
+
+  // Addresses are trusted from the connection towards the client until an untrusted one
+  (await client.get("/api/info").header("X-Forwarded-For", "203.0.113.9, 198.51.100.1, 10.1.2.3")
+    .header("X-Forwarded-Proto", "https").header("X-Forwarded-Host", "example.com"))
+    .expectJson({ ip: "198.51.100.1", ips: ["198.51.100.1", "10.1.2.3"], protocol: "https", host: "example.com", secure: true });
+  (await client.get("/api/info").header("X-Forwarded-For", "203.0.113.9").ip("192.0.2.1"))
+    .expectJson({ ip: "192.0.2.1", ips: [], protocol: "http" });
+
+  // Forwarded takes precedence and describes each hop
+  (await client.get("/api/info")
+    .header("Forwarded", 'for="[2001:db8::17]:4711";proto=https;host=example.org, for=10.0.0.5;proto=http')
+    .header("X-Forwarded-For", "203.0.113.9"))
+    .expectJson({ ip: "2001:db8::17", ips: ["2001:db8::17", "10.0.0.5"], protocol: "https", host: "example.org" });
+
+  const hops = new XebecServer({ trustProxy: 1 });
+  hops.GET("/", info);
+  (await testClient(hops).get("/").header("X-Forwarded-For", "203.0.113.9, 198.51.100.1").ip("::ffff:192.0.2.1"))
+    .expectJson({ ip: "198.51.100.1", ips: ["198.51.100.1"] });
+
+  assertThrows(() => new XebecServer({ trustProxy: "10.0.0.0/33" }), Error, "Invalid trusted proxy range");
+});
+
+Deno.test("Auth - JWT, bearer tokens, Basic auth and guards", async () => {
+  const app = new XebecServer();
+  const me = (req: Req) => ResponseHelper.json({ subject: req.auth?.subject, scheme: req.auth?.scheme, roles: req.auth?.roles });
+
+  const hs = new XebecServer();
+  hs.use(jwt({ secret: ["new-secret", "old-secret"], issuer: "https://auth.test", audience: "api", clockTolerance: 5 }));
+  hs.GET("/me", me);
+  hs.DELETE("/posts/:id", () => new Response(null, { status: 204 }), {
+    middleware: [authorize({ scopes: ["posts:write"], roles: ["admin"] })],
+  });
+  app.route("/hs", hs);
+
+  const { privateKey, publicKey } = await crypto.subtle.generateKey({ name: "ECDSA", namedCurve: "P-256" }, true, ["sign", "verify"]);
+  const jwk = { ...(await crypto.subtle.exportKey("jwk", publicKey)), kid: "k1" };
+  let jwksLoads = 0;
+  const es = new XebecServer();
+  es.use(jwt({ jwks: () => (jwksLoads++, { keys: [jwk] }), optional: true, realm: "api" }));
+  es.GET("/me", me);
+  app.route("/es", es);
+
+  app.GET("/key", me, { middleware: [bearerAuth({ tokens: ["k-123"], header: "X-API-Key" })] });
+  app.GET("/basic", me, {
+    middleware: [basicAuth({ users: { ada: "lovelace" }, realm: "Admin" }), authorize({ roles: ["admin"] })],
+  });
+  app.GET("/basic-verify", me, {
+    middleware: [basicAuth({ verify: (user, password) => user === "grace" && password === "hopper" && { roles: ["admin"] } })],
+  });
+
+  const client = testClient(app);
+  const claims = { sub: "u1", iss: "https://auth.test", aud: ["api", "web"], roles: ["admin"], scope: "posts:read posts:write" };
+  const bearer = (token: string) => `Bearer ${token}`;
+
+  (await client.get("/hs/me")).expectStatus(401).expectHeader("WWW-Authenticate", "Bearer");
+  (await client.get("/hs/me").header("Authorization", bearer(await signJwt(claims, "old-secret", { expiresIn: 60 }))))
+    .expectStatus(200).expectJson({ subject: "u1", scheme: "Bearer", roles: ["admin"] });
+  (await client.get("/hs/me").header("Authorization", bearer(await signJwt({ ...claims, exp: Math.floor(Date.now() / 1000) - 3 }, "new-secret"))))
+    .expectStatus(200);
+  (await client.get("/hs/me").header("Authorization", bearer(await signJwt({ ...claims, exp: Math.floor(Date.now() / 1000) - 10 }, "new-secret"))))
+    .expectStatus(401)
+    .expectHeader("WWW-Authenticate", 'Bearer error="invalid_token", error_description="Token expired"');
+  (await client.get("/hs/me").header("Authorization", bearer(await signJwt({ ...claims, aud: "web" }, "new-secret"))))
+    .expectStatus(401).expectJson({ detail: "Invalid audience" });
+  (await client.get("/hs/me").header("Authorization", bearer(await signJwt(claims, "wrong-secret"))))
+    .expectStatus(401).expectJson({ detail: "Invalid signature" });
+
+  const readOnly = await signJwt({ ...claims, scope: "posts:read" }, "new-secret");
+  (await client.delete("/hs/posts/1").header("Authorization", bearer(readOnly)))
+    .expectStatus(403)
+    .expectHeader("WWW-Authenticate", 'Bearer error="insufficient_scope", scope="posts:write"');
+  (await client.delete("/hs/posts/1").header("Authorization", bearer(await signJwt(claims, "new-secret")))).expectStatus(204);
+
+  // Asymmetric keys from a JWKS, which never accept HMAC tokens
+  (await client.get("/es/me")).expectStatus(200).expectJson({});
+  (await client.get("/es/me").header("Authorization", bearer(await signJwt({ sub: "u2" }, privateKey, { kid: "k1" }))))
+    .expectStatus(200).expectJson({ subject: "u2" });
+  (await client.get("/es/me").header("Authorization", bearer(await signJwt({ sub: "u2" }, "secret"))))
+    .expectStatus(401)
+    .expectHeader("WWW-Authenticate", 'Bearer realm="api", error="invalid_token", error_description="Algorithm HS256 is not accepted"');
+  assertEquals(jwksLoads, 1);
+
+  (await client.get("/key").header("X-API-Key", "k-123")).expectStatus(200).expectJson({ scheme: "Bearer" });
+  (await client.get("/key").header("X-API-Key", "k-124")).expectStatus(401);
+
+  (await client.get("/basic")).expectStatus(401).expectHeader("WWW-Authenticate", 'Basic realm="Admin", charset="UTF-8"');
+  (await client.get("/basic").header("Authorization", `Basic ${btoa("ada:wrong")}`)).expectStatus(401);
+  (await client.get("/basic").header("Authorization", `Basic ${btoa("ada:lovelace")}`)).expectStatus(403);
+  (await client.get("/basic-verify").header("Authorization", `Basic ${btoa("grace:hopper")}`))
+    .expectStatus(200).expectJson({ subject: "grace", scheme: "Basic", roles: ["admin"] });
+});
+
+Deno.test("csrf - Double-submit cookie and session tokens", async () => {
+  const app = new XebecServer();
+  app.use(csrf({ secret: "csrf-secret", trustedOrigins: ["https://app.example.com"], exempt: ["/webhooks/*"] }));
+  app.GET("/form", (req) => new Response(`<input name="_csrf" value="${req.csrfToken!()}">`));
+  app.POST("/transfer", (req) => ResponseHelper.json(req.body), { options: { parseUrlEncoded: true } });
+  app.POST("/webhooks/stripe", () => new Response("ok"));
+
+  const client = testClient(app);
+  const form = await client.get("/form");
+  const token = form.text.match(/value="([^"]+)"/)![1];
+  assertEquals(form.headers.get("set-cookie")?.startsWith(`csrf=${encodeURIComponent(token)}`), true);
+
+  (await client.post("/transfer").form({ amount: "5" })).expectStatus(403).expectJson({ detail: "Missing CSRF token" });
+  (await client.post("/transfer").header("X-CSRF-Token", "forged")).expectStatus(403).expectJson({ detail: "Invalid CSRF token" });
+  // The form field is read without consuming the body parsed by the route
+  (await client.post("/transfer").form({ amount: "5", _csrf: token })).expectStatus(200).expectJson({ amount: "5" });
+  (await client.post("/transfer").header("X-CSRF-Token", token).header("Origin", "https://app.example.com")).expectStatus(200);
+  (await client.post("/transfer").header("X-CSRF-Token", token).header("Origin", "https://evil.example"))
+    .expectStatus(403).expectJson({ detail: "Cross-origin request blocked" });
+  (await client.post("/transfer").header("X-CSRF-Token", token).header("Sec-Fetch-Site", "cross-site"))
+    .expectStatus(403).expectJson({ detail: "Cross-site request blocked" });
+  (await client.post("/webhooks/stripe")).expectStatus(200);
+
+  const sessions = new XebecServer();
+  sessions.use(session({ secret: "session-secret" }));
+  sessions.use(csrf({ storage: "session" }));
+  sessions.GET("/token", (req) => ResponseHelper.json({ token: req.csrfToken!() }));
+  sessions.DELETE("/account", () => new Response(null, { status: 204 }));
+  const sessionClient = testClient(sessions);
+  const { token: sessionToken } = (await sessionClient.get("/token")).json<{ token: string }>();
+  const again = await sessionClient.get("/token");
+  assertEquals(again.json<{ token: string }>().token, sessionToken);
+  assertEquals(again.headers.get("Set-Cookie"), null);
+  (await sessionClient.delete("/account").header("X-CSRF-Token", token)).expectStatus(403);
+  (await sessionClient.delete("/account").header("X-CSRF-Token", sessionToken)).expectStatus(204);
+});
+
+Deno.test("XebecServer - Mounting order, fall-through and error bubbling", async () => {
+  const order: string[] = [];
+  const app = new XebecServer({
+    errorHandler: (error, req) => ResponseHelper.json({ handledBy: "parent", error: error.message, route: req.route }, 500),
+  });
+  const posts = new XebecServer<PathParams<"/users/:uid">>();
+
+  posts.use((req, next) => {
+    order.push(`child ${req.baseUrl}`);
+    return next();
+  });
+  posts.GET("/posts/:postId", (req) => {
+    return ResponseHelper.json({ ...req.params, baseUrl: req.baseUrl, url: req.url, originalUrl: req.originalUrl, route: req.route });
+  });
+  posts.GET("/missing", () => ResponseHelper.error("No such post", 404));
+  posts.POST("/posts", (req) => ResponseHelper.json(req.body), { options: { parseJson: true } });
+  posts.GET("/broken", () => {
+    throw new Error("boom");
+  });
+
+  // The same server at two prefixes, and middleware registered after mounting still runs first
+  app.route("/users/:uid", posts);
+  app.route("/members/:uid", posts);
+  app.use((_req, next) => {
+    order.push("parent");
+    return next();
+  });
+  app.POST("/users/:uid/import", async (req) => new Response(await req.text()));
+
+  const client = testClient(app);
+  (await client.get("/users/7/posts/3?full=1")).expectJson({
+    uid: "7",
+    postId: "3",
+    baseUrl: "/users/7",
+    url: "http://localhost/posts/3?full=1",
+    originalUrl: "http://localhost/users/7/posts/3?full=1",
+    route: "/users/:uid/posts/:postId",
+  });
+  (await client.get("/members/8/posts/4")).expectJson({ uid: "8", baseUrl: "/members/8" });
+  // A rest starting with "//" stays a path of this host
+  (await client.get("/users/7//evil.example/posts/3")).expectStatus(404);
+  assertEquals(order, ["parent", "child /users/7", "parent", "child /members/8", "parent", "child /users/7"]);
+
+  // A 404 of a route is final, a path without a route falls through to the parent's routes with its body intact
+  (await client.get("/users/7/missing")).expectStatus(404).expectJson({ error: "No such post" });
+  assertEquals((await client.post("/users/7/import").body("raw data")).expectStatus(200).text, "raw data");
+  (await client.post("/users/7/posts").json({ title: "Hi" })).expectJson({ title: "Hi" });
+
+  (await client.get("/users/7/broken")).expectStatus(500)
+    .expectJson({ handledBy: "parent", error: "boom", route: "/users/:uid/broken" });
+  const own = new XebecServer({ errorHandler: () => ResponseHelper.error("child handled", 500) });
+  own.GET("/broken", () => {
+    throw new Error("boom");
+  });
+  app.route("/own", own);
+  (await client.get("/own/broken")).expectJson({ error: "child handled" });
+});
+
+Deno.test("XebecServer - Route groups", async () => {
+  const app = new XebecServer({ maxBodySize: 1024 });
+  const calls: string[] = [];
+  const tagging = (name: string): Middleware => (_req, next) => {
+    calls.push(name);
+    return next();
+  };
+
+  app.group("/admin", {
+    middleware: [tagging("admin")],
+    headers: { "Cache-Control": "no-store" },
+    tags: ["admin"],
+    options: { parseJson: true, maxBodySize: 16, validate: (req) => req.headers.has("X-Admin") },
+    errorHandler: (error) => ResponseHelper.json({ admin: error.message }, 500),
+  }, (admin) => {
+    admin.GET("/", () => new Response("dashboard"));
+    admin.POST("/notes", (req) => ResponseHelper.json(req.body), {
+      middleware: [tagging("notes")],
+      options: { validate: (req) => req.headers.get("X-Admin") === "root" },
+    });
+    admin.group("/orgs/:org", { middleware: [tagging("orgs")], tags: ["orgs"] }, (orgs) => {
+      orgs.DELETE("/", (req) => {
+        throw new Error(`cannot delete ${req.params.org}`);
+      }, { headers: { "Cache-Control": "private" } });
+    });
+  });
+  app.POST("/public", (req) => ResponseHelper.json(req.body), { options: { parseJson: true } });
+
+  const client = testClient(app);
+  (await client.get("/admin").header("X-Admin", "1")).expectStatus(200).expectHeader("Cache-Control", "no-store");
+  (await client.get("/admin")).expectStatus(422);
+
+  // Both validators have to pass, and the group's body limit only applies to its routes
+  (await client.post("/admin/notes").header("X-Admin", "1").json({ a: 1 })).expectStatus(422);
+  (await client.post("/admin/notes").header("X-Admin", "root").json({ a: 1 })).expectStatus(200).expectJson({ a: 1 });
+  (await client.post("/admin/notes").header("X-Admin", "root").json({ text: "x".repeat(32) })).expectStatus(413);
+  (await client.post("/public").json({ text: "x".repeat(32) })).expectStatus(200);
+
+  (await client.delete("/admin/orgs/acme").header("X-Admin", "1"))
+    .expectStatus(500)
+    .expectHeader("Cache-Control", "private")
+    .expectJson({ admin: "cannot delete acme" });
+  assertEquals(calls, ["admin", "admin", ...Array(3).fill(["admin", "notes"]).flat(), "admin", "orgs"]);
+
+  const routes = app.routes().map(({ method, path, config }) => ({ method, path, tags: config.tags, middleware: config.middleware?.length }));
+  assertEquals(routes, [
+    { method: "GET", path: "/admin", tags: ["admin"], middleware: 1 },
+    { method: "POST", path: "/admin/notes", tags: ["admin"], middleware: 2 },
+    { method: "DELETE", path: "/admin/orgs/:org", tags: ["admin", "orgs"], middleware: 2 },
+    { method: "POST", path: "/public", tags: undefined, middleware: undefined },
+  ]);
+});
+
+Deno.test("XebecServer - HTTP errors render as problem details", async () => {
+  const app = new XebecServer({
+    notFoundHandler: (req) => ResponseHelper.text(`no page at ${new URL(req.url).pathname}`, 404),
+  });
+  app.POST("/accounts/:id/withdraw", () => {
+    throw new Conflict("Insufficient funds", { type: "https://example.com/out-of-credit", extensions: { balance: 30 } });
+  });
+  app.GET("/crash", () => {
+    throw new Error("database password leaked");
+  });
+
+  const client = testClient(app);
+  (await client.post("/accounts/7/withdraw"))
+    .expectStatus(409)
+    .expectHeader("Content-Type", "application/problem+json")
+    .expectJson({
+      type: "https://example.com/out-of-credit",
+      title: "Conflict",
+      status: 409,
+      detail: "Insufficient funds",
+      instance: "/accounts/7/withdraw",
+      balance: 30,
+    });
+
+  const crash = await client.get("/crash");
+  crash.expectStatus(500).expectJson({ title: "Internal Server Error", status: 500 });
+  assertEquals(crash.text.includes("leaked"), false);
+  assertEquals((await client.get("/nowhere")).expectStatus(404).text, "no page at /nowhere");
+
+  // Debug mode shows the underlying message and the stack trace
+  const debug = new XebecServer({ debug: true });
+  debug.GET("/crash", () => {
+    throw new Error("database password leaked");
+  });
+  const log = console.log;
+  console.log = () => {};
+  try {
+    const problem = (await testClient(debug).get("/crash")).json<{ detail: string; stack: string }>();
+    assertEquals(problem.detail, "database password leaked");
+    assertEquals(problem.stack.startsWith("Error: database password leaked"), true);
+  } finally {
+    console.log = log;
+  }
+  assertEquals(HttpError.from(new Conflict()).status, 409);
+});
+
+Deno.test("XebecServer - Request timeouts abort handlers and discard late results", async () => {
+  const app = new XebecServer({ requestTimeout: 30 });
+  const abandoned: string[] = [];
+  app.onAbandon((req, info) => {
+    abandoned.push(`${info.reason} ${new URL(req.url).pathname}`);
+  });
+
+  const wait = (ms: number, signal?: AbortSignal) =>
+    new Promise<void>((resolve, reject) => {
+      const timer = setTimeout(resolve, ms);
+      signal?.addEventListener("abort", () => {
+        clearTimeout(timer);
+        reject(signal.reason);
+      }, { once: true });
+    });
+
+  app.GET("/slow", async (req) => {
+    await wait(1000, req.signal);
+    return new Response("too late");
+  });
+  let lateBodyCancelled = false;
+  app.GET("/stubborn", async () => {
+    await wait(50);
+    return new Response(new ReadableStream({ cancel: () => void (lateBodyCancelled = true) }));
+  });
+  app.GET("/upstream", async (req) => {
+    await wait(1000, req.signal);
+    return new Response("upstream");
+  }, { options: { upstream: true, requestTimeout: 10 } });
+  app.GET("/report", async (req) => {
+    await wait(50, req.signal);
+    return new Response("report");
+  }, { options: { requestTimeout: 500 } });
+
+  const client = testClient(app);
+  (await client.get("/slow"))
+    .expectStatus(503)
+    .expectHeader("Content-Type", "application/problem+json")
+    .expectJson({ title: "Service Unavailable", detail: "Request timed out" });
+  (await client.get("/stubborn")).expectStatus(503);
+  (await client.get("/upstream")).expectStatus(504).expectJson({ title: "Gateway Timeout" });
+  assertEquals((await client.get("/report")).expectStatus(200).text, "report");
+
+  // The client going away aborts the handler too
+  const controller = new AbortController();
+  setTimeout(() => controller.abort(), 5);
+  await client.get("/slow").signal(controller.signal);
+
+  // Timeouts are answered by the server, not by its error handler
+  const handled = new XebecServer({ requestTimeout: 10, errorHandler: () => ResponseHelper.text("custom", 500) });
+  handled.GET("/slow", (req) => wait(1000, req.signal).then(() => new Response("too late")));
+  (await testClient(handled).get("/slow")).expectStatus(503).expectJson({ detail: "Request timed out" });
+
+  await wait(100);
+  assertEquals(lateBodyCancelled, true);
+  assertEquals(abandoned, ["timeout /slow", "timeout /stubborn", "timeout /upstream", "disconnect /slow"]);
+});
@@ -1,4 +1,142 @@
-import { Req, Handler, Middleware, ServerOptions, RouteConfig, ResponseHelper, Config } from "./types.ts";
+import { Router, matchPrefix, paramNames } from "./router.ts";
+import { MultipartError, readMultipart } from "./multipart.ts";
+import { BodyLimiter, limitBody, resolveBodySize } from "./body.ts";
+import { BadRequest, HttpError, MethodNotAllowed, NotFound, PayloadTooLarge, ServiceUnavailable, UnprocessableEntity } from "./errors.ts";
+import { logger } from "./logger.ts";
+import { Serializer } from "./negotiate.ts";
+import { compileTrustProxy, resolveClientInfo } from "./proxy.ts";
+import { AbandonInfo, RequestDeadline } from "./timeout.ts";
+import { openapi, OpenAPIOptions, openapiDocsPage } from "./openapi.ts";
+import { TopicRegistry, upgradeWebSocket, WebSocketConfig, WebSocketData, WebSocketHandlers } from "./websocket.ts";
+import { Req, Handler, Middleware, ServerOptions, RouteConfig, GroupConfig, ResponseHelper, Config, ListenOptions, ServerHandle, ServeInfo, ResponseHook, AbandonHook, RouteInfo, RouteSchema, TypedReq, PathParams } from "./types.ts";
+
+export * from "./types.ts";
+export * from "./errors.ts";
+export * from "./schema.ts";
+export * from "./multipart.ts";
+export * from "./body.ts";
+export * from "./cookie.ts";
+export * from "./session.ts";
+export * from "./auth.ts";
+export * from "./csrf.ts";
+export * from "./ratelimit.ts";
+export * from "./proxy.ts";
+export * from "./timeout.ts";
+export * from "./websocket.ts";
+export * from "./sse.ts";
+export * from "./logger.ts";
+export * from "./negotiate.ts";
+export * from "./openapi.ts";
+export * from "./testing.ts";
+export * from "./middleware.ts";
+
+// Params of a route: those of the mount prefix plus those declared by the path
+type RouteParams<BaseParams, P extends string> = PathParams<P> & BaseParams;
+
+// A registered route as stored in the router
+interface RouteDefinition {
+  handler: Handler;
+  middleware?: Middleware[];
+  options?: RouteConfig["options"];
+  schema?: RouteSchema;
+  headers?: Record<string, string>;
+  errorHandler?: RouteConfig["errorHandler"];
+  config: Omit<RouteConfig, Config>;
+}
+
+// Removes the spooled files of a multipart request once its handler returned
+const uploadCleanups = new WeakMap<Req, () => Promise<void>>();
+
+// Body limits of the requests being handled, shared with mounted servers
+const bodyLimiters = new WeakMap<Request, BodyLimiter>();
+
+// Deadlines of the requests being handled, shared with mounted servers
+const deadlines = new WeakMap<Request, RequestDeadline>();
+
+// Connection details passed to handler(), keyed by the request received from Deno.serve
+const serveInfos = new WeakMap<Request, ServeInfo>();
+
+// The request received from Deno.serve, needed to upgrade WebSockets from mounted servers and middleware
+const rootRequests = new WeakMap<Request, Request>();
+
+// Time requests aborted on shutdown get to return before close() resolves
+const ABORT_GRACE_PERIOD = 1000;
+
+// Ends a response body once the server shuts down, so streams cannot keep it open
+function endOnAbort(response: Response, signal: AbortSignal): Response {
+  if (!response.body || response.status === 101) return response;
+  const { readable, writable } = new TransformStream<Uint8Array, Uint8Array>();
+  response.body.pipeTo(writable, { signal }).catch(() => {});
+  return new Response(readable, {
+    status: response.status,
+    statusText: response.statusText,
+    headers: response.headers,
+  });
+}
+
+// Prefixes a route pattern with the prefix of the server it is mounted on
+function joinPath(prefix: string, path: string): string {
+  return prefix.replace(/\/$/, "") + (path.startsWith("/") ? path : "/" + path);
+}
+
+// Combines the settings of a group with those of a nested group or route, the latter take precedence
+function mergeGroupConfig<T extends GroupConfig>(group: GroupConfig, config: T): T {
+  const merged: T = { ...config };
+  if (group.middleware?.length || config.middleware?.length) {
+    merged.middleware = [...group.middleware ?? [], ...config.middleware ?? []];
+  }
+  if (group.options || config.options) {
+    const validators = [group.options?.validate, config.options?.validate].filter((validate) => validate !== undefined);
+    merged.options = { ...group.options, ...config.options };
+    if (validators.length > 1) {
+      merged.options.validate = async (req) => {
+        for (const validate of validators) {
+          if (!(await validate(req))) return false;
+        }
+        return true;
+      };
+    }
+  }
+  if (group.headers || config.headers) merged.headers = { ...group.headers, ...config.headers };
+  if (group.tags || config.tags) merged.tags = [...new Set([...group.tags ?? [], ...config.tags ?? []])];
+  for (const key of ["errorHandler", "deprecated", "hidden"] as const) {
+    if (merged[key] === undefined && group[key] !== undefined) Object.assign(merged, { [key]: group[key] });
+  }
+  return merged;
+}
+
+// A request handed to a mounted server, and what the mounted server reports back to its parent
+interface MountContext {
+  parent: Req;
+  params: Record<string, string>;
+  baseUrl: string;
+  // Pattern of the mount prefixes leading to the mounted server, e.g. `/users/:uid`
+  routePrefix: string;
+  // Pattern of the route the mounted server matched, including the mount prefixes
+  route?: string;
+  // Set when the mounted server has no route for the path, the parent then tries its own routes
+  unmatched?: boolean;
+  // Methods the mounted server allows for the path
+  allow?: Set<string>;
+}
+const mountContexts = new WeakMap<Request, MountContext>();
+// Methods the servers mounted on a server allow for a request path they had no route for
+const mountedAllow = new WeakMap<Request, Set<string>>();
+
+// Request state a mounted server takes over from its parent
+const INHERITED_FIELDS = [
+  "id", "remoteAddr", "ip", "ips", "protocol", "host", "secure", "session", "auth", "csrfToken", "trace", "originalUrl",
+] as const;
+
+// Init of a request sharing the body stream of `source` rather than teeing it, so bodies are read once
+function sharedBody(source: Request): RequestInit {
+  return {
+    method: source.method,
+    headers: source.headers,
+    signal: source.signal,
+    body: source.bodyUsed ? null : source.body,
+  };
+}
 
 /**
  * Represents a lightweight HTTP server with built-in routing and middleware support.
@@ -9,10 +147,15 @@ import { Req, Handler, Middleware, ServerOptions, RouteConfig, ResponseHelper, C
  *
  * @remarks
  * - URL patterns can include dynamic segments defined with a colon (e.g., "/user/:id"), which will be
- *   extracted into the request parameters.
+ *   extracted into the request parameters. Params can be optional ("/posts/:page?"), constrained by a
+ *   regex ("/user/:id(\\d+)"), and a trailing wildcard captures the rest of the path ("/files/*path").
+ * - Routes are stored in a radix tree: static segments win over params, which win over wildcards,
+ *   regardless of registration order. Registering the same route twice throws.
  * - Middleware functions are executed in the order they are added via the `use()` method, and can intercept,
  *   modify, or handle requests before they reach any matching route.
  * - The `route()` method allows nesting a separate XebecServer instance under a specified URL prefix.
+ *   Mounted servers run after all middleware of their parent and before its own routes. When a mounted
+ *   server has no route for a path, the parent's routes are tried; errors it does not handle go to the parent.
  * - Incoming requests are converted to an internal `Req` object, allowing for cloned (immutable) requests,
  *   parameter extraction, and query parsing.
  *
@@ -43,22 +186,22 @@ import { Req, Handler, Middleware, ServerOptions, RouteConfig, ResponseHelper, C
  * server.route("/admin", adminServer);
  * ```
  */
-export class XebecServer {
-  private routes: {
-    [method: string]: Array<{
-      pattern: string;
-      regex: RegExp;
-      paramNames: string[];
-      handler: Handler;
-      isWildcard: boolean;
-      middleware?: Middleware[];
-      options?: RouteConfig["options"];
-    }>;
-  } = {};
+export class XebecServer<BaseParams extends Record<string, string> = Record<never, never>> {
+  private readonly router = new Router<RouteDefinition>();
 
   private readonly middlewares: Middleware[] = [];
-  private wildcardRoutes: { [method: string]: Handler | null } = {};
+  private readonly responseHooks: ResponseHook[] = [];
+  private readonly abandonHooks: AbandonHook[] = [];
+  private readonly serializers: Record<string, Serializer> = {};
+  private readonly mounts: {
+    prefix: string;
+    handler: (req: Request) => Promise<Response>;
+    routes: () => RouteInfo[];
+  }[] = [];
+  private readonly topics = new TopicRegistry();
   private readonly options: ServerOptions;
+  private readonly debugLogger?: Middleware;
+  private readonly trustProxy: (address: string, hop: number) => boolean;
 
   constructor(options: ServerOptions = {}) {
     this.options = {
@@ -66,6 +209,10 @@ export class XebecServer {
       maxBodySize: 1024 * 1024, // 1MB default
       ...options,
     };
+    if (this.options.debug) {
+      this.debugLogger = logger({ format: "pretty" });
+    }
+    this.trustProxy = compileTrustProxy(this.options.trustProxy);
   }
 
   // Middleware
@@ -73,189 +220,561 @@ export class XebecServer {
     this.middlewares.push(middleware);
   }
 
+  // Register a serializer for `req.send()`, available to this server and the servers mounted on it
+  serializer(mediaType: string, serializer: Serializer) {
+    this.serializers[mediaType] = serializer;
+  }
+
+  // List the routes of this server and of the servers mounted on it, in registration order
+  routes(): RouteInfo[] {
+    const own = this.router.routes().map(({ method, pattern, value }) => ({
+      method,
+      path: pattern === "*" ? "/*" : pattern,
+      params: paramNames(pattern),
+      config: value.config,
+    }));
+    const mounted = this.mounts.flatMap(({ prefix, routes }) =>
+      routes().map((route) => {
+        const path = joinPath(prefix, route.path);
+        return { ...route, path, params: paramNames(path) };
+      })
+    );
+    return [...own, ...mounted];
+  }
+
+  // Serve the OpenAPI document of this server, and a docs page unless `docsPath` is false
+  serveOpenAPI(options: OpenAPIOptions & { path?: string; docsPath?: string | false }) {
+    const { path = "/openapi.json", docsPath = "/docs", ...documentOptions } = options;
+    // Generated per request, so routes registered later are included
+    this.GET(path, () => ResponseHelper.json(openapi(this, documentOptions)), { hidden: true });
+    if (docsPath !== false) {
+      // The document is fetched below the mount path of the server
+      this.GET(docsPath, (req) => {
+        return new Response(openapiDocsPage(req.baseUrl + path, documentOptions.info.title), {
+          headers: { "Content-Type": "text/html; charset=utf-8" },
+        });
+      }, { hidden: true });
+    }
+  }
+
+  // Run a hook for every response of this server, including errors and those of mounted servers
+  onResponse(hook: ResponseHook) {
+    this.responseHooks.push(hook);
+  }
+
+  // Run a hook for every request of this server abandoned because of a timeout or a client disconnect
+  onAbandon(hook: AbandonHook) {
+    this.abandonHooks.push(hook);
+  }
+
   // Route definition methods
-  GET(path: string, callback: Handler, config?: Omit<RouteConfig, Config>) {
+  GET<P extends string, S extends RouteSchema = RouteSchema>(
+    path: P,
+    callback: Handler<TypedReq<S, RouteParams<BaseParams, P>>>,
+    config?: Omit<RouteConfig<S>, Config>
+  ) {
     this.addRoute("GET", path, callback, config);
   }
 
-  POST(path: string, callback: Handler, config?: Omit<RouteConfig, Config>) {
+  POST<P extends string, S extends RouteSchema = RouteSchema>(
+    path: P,
+    callback: Handler<TypedReq<S, RouteParams<BaseParams, P>>>,
+    config?: Omit<RouteConfig<S>, Config>
+  ) {
     this.addRoute("POST", path, callback, config);
   }
 
-  OPTIONS(path: string, callback: Handler, config?: Omit<RouteConfig, Config>) {
+  OPTIONS<P extends string, S extends RouteSchema = RouteSchema>(
+    path: P,
+    callback: Handler<TypedReq<S, RouteParams<BaseParams, P>>>,
+    config?: Omit<RouteConfig<S>, Config>
+  ) {
     this.addRoute("OPTIONS", path, callback, config);
   }
 
-  PUT(path: string, callback: Handler, config?: Omit<RouteConfig, Config>) {
+  PUT<P extends string, S extends RouteSchema = RouteSchema>(
+    path: P,
+    callback: Handler<TypedReq<S, RouteParams<BaseParams, P>>>,
+    config?: Omit<RouteConfig<S>, Config>
+  ) {
     this.addRoute("PUT", path, callback, config);
   }
 
-  DELETE(path: string, callback: Handler, config?: Omit<RouteConfig, Config>) {
+  DELETE<P extends string, S extends RouteSchema = RouteSchema>(
+    path: P,
+    callback: Handler<TypedReq<S, RouteParams<BaseParams, P>>>,
+    config?: Omit<RouteConfig<S>, Config>
+  ) {
     this.addRoute("DELETE", path, callback, config);
   }
 
-  PATCH(path: string, callback: Handler, config?: Omit<RouteConfig, Config>) {
+  PATCH<P extends string, S extends RouteSchema = RouteSchema>(
+    path: P,
+    callback: Handler<TypedReq<S, RouteParams<BaseParams, P>>>,
+    config?: Omit<RouteConfig<S>, Config>
+  ) {
     this.addRoute("PATCH", path, callback, config);
   }
 
-  route(prefix: string, instance: XebecServer) {
-    if (!prefix.startsWith("/")) {
-      prefix = "/" + prefix;
-    }
-
-    this.use(async (req, next) => {
-      const url = new URL(req.url);
-      const pathname = url.pathname;
-
-      if (pathname.startsWith(prefix)) {
-        const newPathname = pathname.slice(prefix.length) || "/";
-        const newUrl = new URL(newPathname + url.search, url.origin);
-        const newReq = new Req(
-          new Request(newUrl.toString(), req),
-          req.clone(),
-          req.params,
-          req.query
-        );
+  // WebSocket route, upgraded once global and route middleware let the request through
+  WS<P extends string>(
+    path: P,
+    handlers: WebSocketHandlers<RouteParams<BaseParams, P>>,
+    config: WebSocketConfig = {}
+  ) {
+    this.router.add("WS", path, {
+      handler: (req) => {
+        const original = rootRequests.get(req) ?? req;
+        return upgradeWebSocket(req, original, handlers, config, this.topics, serveInfos.get(original));
+      },
+      middleware: config.middleware,
+      config: { middleware: config.middleware },
+    });
+  }
 
-        try {
-          const response = await instance.handler(newReq);
-          if (response.status !== 404) {
-            return response;
-          }
-        } catch (error) {
-          if (instance.options.errorHandler) {
-            return instance.options.errorHandler(error as Error, newReq);
-          }
-          throw error;
-        }
-      }
+  // Send data to every WebSocket of this server subscribed to the topic
+  publish(topic: string, data: WebSocketData): number {
+    return this.topics.publish(topic, data);
+  }
 
-      return next();
+  // Register routes under a prefix sharing middleware, options, headers and an error handler. Groups can be nested
+  group<P extends string>(
+    prefix: P,
+    config: GroupConfig,
+    define: (group: RouteGroup<RouteParams<BaseParams, P>>) => void
+  ): RouteGroup<RouteParams<BaseParams, P>>;
+  group<P extends string>(
+    prefix: P,
+    define: (group: RouteGroup<RouteParams<BaseParams, P>>) => void
+  ): RouteGroup<RouteParams<BaseParams, P>>;
+  group<P extends string>(
+    prefix: P,
+    configOrDefine: GroupConfig | ((group: RouteGroup<RouteParams<BaseParams, P>>) => void),
+    define?: (group: RouteGroup<RouteParams<BaseParams, P>>) => void
+  ): RouteGroup<RouteParams<BaseParams, P>> {
+    const config = typeof configOrDefine === "function" ? {} : configOrDefine;
+    const groupPrefix = prefix.startsWith("/") ? prefix : "/" + prefix;
+    const group = new RouteGroup<RouteParams<BaseParams, P>>(groupPrefix, config, {
+      route: (method, path, handler, routeConfig) => this.addRoute(method, path, handler, routeConfig),
+      ws: (path, handlers, wsConfig) => this.WS(path, handlers as WebSocketHandlers<RouteParams<BaseParams, string>>, wsConfig),
     });
+    (typeof configOrDefine === "function" ? configOrDefine : define!)(group);
+    return group;
   }
 
-  private addRoute(
-    method: string,
-    path: string,
-    handler: Handler,
-    config?: Omit<RouteConfig, Config>
-  ) {
-    const paramNames: string[] = [];
-    const isWildcard = path === "*";
-
-    let regexPattern = path.replace(/[.+?^${}()|[\]\\]/g, "\\$&");
-    regexPattern = regexPattern.replace(/:\w+/g, (param) => {
-      paramNames.push(param.slice(1));
-      return "([^\\/]+)";
+  // Mount a server under a prefix. `:param` segments of the prefix are passed to the mounted server's routes.
+  // A server can be mounted at several prefixes, `req.baseUrl` tells them apart
+  route<P extends string>(prefix: P, instance: XebecServer<RouteParams<BaseParams, P>>) {
+    const mountPrefix = prefix.startsWith("/") ? prefix : "/" + prefix;
+    this.mounts.push({
+      prefix: mountPrefix,
+      handler: (req) => instance.handler(req),
+      routes: () => instance.routes(),
     });
+  }
 
-    const regex = new RegExp(`^${regexPattern.replace(/\*/g, ".*")}$`);
+  // Start serving requests with Deno.serve
+  listen(options: ListenOptions = {}): ServerHandle {
+    const {
+      port = 8000,
+      hostname = "0.0.0.0",
+      cert,
+      key,
+      handleSignals = true,
+      shutdownTimeout = 10_000,
+      onListen,
+      onClose,
+    } = options;
 
-    if (!this.routes[method]) {
-      this.routes[method] = [];
-    }
+    const serveOptions = {
+      port,
+      hostname,
+      onListen: (addr: Deno.NetAddr) => {
+        if (this.options.debug) {
+          console.log(`Listening on ${cert ? "https" : "http"}://${addr.hostname}:${addr.port}/`);
+        }
+        onListen?.(addr);
+      },
+      ...(cert && key ? { cert, key } : {}),
+    };
 
-    if (isWildcard) {
-      this.wildcardRoutes[method] = handler;
-    } else {
-      this.routes[method].push({
-        pattern: path,
-        regex,
-        paramNames,
-        handler,
-        isWildcard,
-        middleware: config?.middleware,
-        options: config?.options,
+    // Aborted once close() stops waiting for in-flight requests
+    const stop = new AbortController();
+    const server = Deno.serve(serveOptions, async (req, info) => {
+      const response = await this.handler(req, {
+        remoteAddr: info.remoteAddr,
+        completed: info.completed,
+        shutdownSignal: stop.signal,
       });
+      return endOnAbort(response, stop.signal);
+    });
+    const addr = server.addr as Deno.NetAddr;
+
+    const signals: Deno.Signal[] = Deno.build.os === "windows" ? ["SIGINT"] : ["SIGINT", "SIGTERM"];
+    const onSignal = () => {
+      // The listener replaced the default of ending the process, which happens once the server is closed
+      handle.close().then(() => Deno.exit(0));
+    };
+    if (handleSignals) {
+      signals.forEach((signal) => Deno.addSignalListener(signal, onSignal));
     }
+
+    let closing: Promise<void> | null = null;
+    const handle: ServerHandle = {
+      addr,
+      // onClose runs once the server has really stopped, which can be after close() gave up waiting
+      finished: server.finished.then(() => onClose?.()),
+      close: () => {
+        if (closing) return closing;
+
+        if (handleSignals) {
+          signals.forEach((signal) => Deno.removeSignalListener(signal, onSignal));
+        }
+
+        // Wait for in-flight requests, but never longer than the deadline
+        let timer: ReturnType<typeof setTimeout> | undefined;
+        const wait = (ms: number) => new Promise<false>((resolve) => {
+          timer = setTimeout(() => resolve(false), ms);
+        });
+        closing = (async () => {
+          const drained = await Promise.race([server.shutdown().then(() => true), wait(shutdownTimeout)]);
+          clearTimeout(timer);
+          if (drained) return;
+
+          // Abort the requests still running and end their streams and WebSockets,
+          // then give them a moment to return. Handlers ignoring req.signal cannot be stopped
+          stop.abort(new ServiceUnavailable("Server shutting down"));
+          await Promise.race([handle.finished, wait(ABORT_GRACE_PERIOD)]);
+          clearTimeout(timer);
+        })();
+        return closing;
+      },
+    };
+
+    return handle;
   }
 
-  async handler(req: Request) {
+  private addRoute<P extends string, S extends RouteSchema>(
+    method: string,
+    path: P,
+    handler: Handler<TypedReq<S, RouteParams<BaseParams, P>>>,
+    config?: Omit<RouteConfig<S>, Config>
+  ) {
+    this.router.add(method, path, {
+      // The schema guarantees the typed view of the request at runtime
+      handler: handler as unknown as Handler,
+      middleware: config?.middleware,
+      options: config?.options,
+      schema: config?.schema,
+      headers: config?.headers,
+      errorHandler: config?.errorHandler,
+      config: config ?? {},
+    });
+  }
+
+  async handler(req: Request, info?: ServeInfo) {
     const url = new URL(req.url);
     const pathname = url.pathname;
     const method = req.method.toUpperCase();
     
-    // Check body size
-    const contentLength = parseInt(req.headers.get("content-length") || "0");
-    if (contentLength > (this.options.maxBodySize ?? 1024 * 1024)) {
-      return ResponseHelper.error("Request entity too large", 413);
+    const contentType = req.headers.get("content-type") ?? "";
+    const mount = mountContexts.get(req);
+    const maxBodySize = resolveBodySize(this.options.maxBodySize, contentType) ?? 1024 * 1024;
+
+    // Enforce the body limits while the body is read. Mounted servers share the limiter of their parent
+    let bodyReq = req;
+    let limiter = bodyLimiters.get(req);
+    if (limiter) {
+      limiter.maxSize = maxBodySize;
+      limiter.timeout = this.options.bodyTimeout ?? limiter.timeout;
+    } else {
+      limiter = { maxSize: maxBodySize, timeout: this.options.bodyTimeout };
+      if (req.body) {
+        bodyReq = new Request(req, { body: limitBody(req.body, limiter) });
+      }
     }
+
+    // The deadline counts from the request's arrival, mounted servers share the deadline of their parent
+    const deadline = deadlines.get(req) ?? new RequestDeadline();
+    if (!mount || this.options.requestTimeout !== undefined) deadline.arm(this.options.requestTimeout);
   
-    const clonedReq = new Req(req, req.clone(), {}, {});
+    // Mounted servers inherit the params captured by their prefix and their parent's params
+    const baseParams = mount ? { ...mount.params } : {};
+    const init = sharedBody(bodyReq);
+    // req.signal aborts when the client disconnects, the deadline passes or the server shuts down.
+    // Mounted requests follow their parent
+    if (!mount) {
+      if (info) serveInfos.set(req, info);
+      init.signal = AbortSignal.any([req.signal, deadline.signal, ...(info?.shutdownSignal ? [info.shutdownSignal] : [])]);
+    }
+    const clonedReq = new Req(bodyReq.url, init, baseParams, {});
+    bodyLimiters.set(clonedReq, limiter);
+    deadlines.set(clonedReq, deadline);
+    rootRequests.set(clonedReq, rootRequests.get(req) ?? req);
+    if (mount) {
+      Object.assign(clonedReq, Object.fromEntries(INHERITED_FIELDS.map((field) => [field, mount.parent[field]])));
+      clonedReq.baseUrl = mount.baseUrl;
+      clonedReq.serializers = { ...mount.parent.serializers, ...this.serializers };
+    } else {
+      clonedReq.serializers = { ...clonedReq.serializers, ...this.serializers };
+      clonedReq.remoteAddr = info?.remoteAddr as Deno.NetAddr | undefined;
+      Object.assign(clonedReq, resolveClientInfo(bodyReq, clonedReq.remoteAddr?.hostname, this.trustProxy));
+      if (this.debugLogger) clonedReq.trace = [];
+    }
   
+    const onAbort = () => this.notifyAbandon(clonedReq, deadline);
+    clonedReq.signal.addEventListener("abort", onAbort, { once: true });
+
+    let matchedRoute: RouteDefinition | undefined;
+    let response: Response;
     try {
       // Process through middleware chain
       let index = 0;
       const runMiddleware = async (): Promise<Response> => {
         if (index < this.middlewares.length) {
-          return this.middlewares[index++](clonedReq, runMiddleware);
+          const middleware = this.middlewares[index++];
+          clonedReq.trace?.push(middleware.name || "anonymous");
+          return middleware(clonedReq, runMiddleware);
+        }
+
+        // Mounted servers come before our own routes, in the order they were mounted
+        for (const { prefix, handler } of this.mounts) {
+          const mounted = await this.dispatchMount(prefix, handler, req, clonedReq, url);
+          if (mounted) return mounted;
         }
         
-        // Find matching route
-        const matchResult = this.findMatchingRoute(method, pathname, url);
+        // Find matching route, WebSocket upgrades prefer WS routes and HEAD falls back to the GET route
+        const isUpgrade = method === "GET" && req.headers.get("upgrade")?.toLowerCase() === "websocket";
+        const matchResult = (isUpgrade ? this.findMatchingRoute("WS", pathname, url) : null) ??
+          this.findMatchingRoute(method, pathname, url) ??
+          (method === "HEAD" ? this.findMatchingRoute("GET", pathname, url) : null);
         if (!matchResult) {
-          return ResponseHelper.error("Not found", 404);
+          return this.handleUnmatched(req, clonedReq, method, pathname);
         }
         
-        const { handler, route, params, query } = matchResult;
+        const { handler, route, pattern, params, query } = matchResult;
+        matchedRoute = route;
+        clonedReq.route = mount ? joinPath(mount.routePrefix, pattern) : pattern;
+        if (mount) mount.route = clonedReq.route;
+        clonedReq.trace?.push(`route ${method} ${pattern}`);
         
         // Apply params and query to request
-        clonedReq.params = params;
+        clonedReq.params = { ...baseParams, ...params };
         clonedReq.query = query;
+
+        // Apply route body limits before anything reads the body
+        limiter.maxSize = resolveBodySize(route.options?.maxBodySize, contentType) ?? limiter.maxSize;
+        limiter.timeout = route.options?.bodyTimeout ?? limiter.timeout;
+        deadline.upstream = route.options?.upstream ?? false;
+        if (route.options?.requestTimeout !== undefined) deadline.arm(route.options.requestTimeout);
+        const contentLength = parseInt(req.headers.get("content-length") || "0");
+        if (contentLength > limiter.maxSize) {
+          return this.renderError(new PayloadTooLarge("Request entity too large"), clonedReq);
+        }
         
+        // Apply route options and schemas, then execute handler
+        const runHandler = async () => {
+          try {
+            const rejected = await this.applyRouteOptions(clonedReq, route);
+            return rejected ?? await handler(clonedReq);
+          } finally {
+            await uploadCleanups.get(clonedReq)?.();
+          }
+        };
+
         // Process route-specific middleware if present
-        if (route?.middleware && route.middleware.length > 0) {
-          return this.processRouteMiddleware(clonedReq, route.middleware, handler);
+        const runRoute = () => route.middleware && route.middleware.length > 0
+          ? this.processRouteMiddleware(clonedReq, route.middleware, runHandler)
+          : runHandler();
+        if (!route.errorHandler) return await runRoute();
+
+        try {
+          return await runRoute();
+        } catch (error) {
+          // Body limit errors and timeouts are answered by the server
+          if (limiter.error || deadline.error) throw error;
+          return await route.errorHandler(error as Error, clonedReq);
         }
-        
-        // Apply route options and execute handler
-        await this.applyRouteOptions(clonedReq, route, req);
-        return handler(clonedReq);
       };
       
-      return await runMiddleware();
+      // Late results of requests past their deadline are discarded
+      const runWithinDeadline = () => deadline.race(runMiddleware());
+      // Debug mode logs the requests received from Deno.serve, mounted servers are covered by their parent
+      response = this.debugLogger && !mount
+        ? await this.debugLogger(clonedReq, runWithinDeadline)
+        : await runWithinDeadline();
     } catch (error) {
-      if (this.options.errorHandler) {
-        return this.options.errorHandler(error as Error, clonedReq);
+      // The body was too large or too slow, whoever was reading it, or the deadline passed
+      const serverError = limiter.error ?? deadline.error;
+      if (serverError) {
+        response = this.renderError(serverError, clonedReq);
+      } else if (this.options.errorHandler) {
+        response = await this.options.errorHandler(error as Error, clonedReq);
+      } else if (mount) {
+        // Mounted servers without an error handler leave errors to their parent
+        throw error;
+      } else {
+        response = this.renderError(HttpError.from(error), clonedReq);
+      }
+    } finally {
+      // The request is answered, later aborts are not abandons
+      clonedReq.signal.removeEventListener("abort", onAbort);
+      if (!mount) deadline.dispose();
+    }
+
+    // The parent discards the answer of a mounted server without a route, and tries its own routes
+    if (mount?.unmatched) return response;
+    response = await this.finalizeResponse(clonedReq, response, matchedRoute);
+
+    // HEAD responses carry the headers of the GET response without its body
+    if (method === "HEAD" && response.body) {
+      await response.body.cancel();
+      return new Response(null, {
+        status: response.status,
+        statusText: response.statusText,
+        headers: response.headers,
+      });
+    }
+    return response;
+  }
+
+  // Hand a request to a mounted server. Resolves to null when the prefix does not match or the server has no route
+  private async dispatchMount(
+    prefix: string,
+    handler: (req: Request) => Promise<Response>,
+    req: Request,
+    clonedReq: Req,
+    url: URL
+  ): Promise<Response | null> {
+    const matched = matchPrefix(prefix, url.pathname);
+    if (!matched) return null;
+    clonedReq.trace?.push(`mount ${prefix}`);
+
+    // Assigning the path keeps a rest starting with "//" from being read as another host
+    const mountedUrl = new URL(url);
+    mountedUrl.pathname = matched.rest;
+    const mountedReq = new Request(mountedUrl, sharedBody(clonedReq));
+    const context: MountContext = {
+      parent: clonedReq,
+      params: { ...clonedReq.params, ...matched.params },
+      baseUrl: clonedReq.baseUrl + matched.base,
+      routePrefix: joinPath(mountContexts.get(req)?.routePrefix ?? "", prefix),
+    };
+    mountContexts.set(mountedReq, context);
+    bodyLimiters.set(mountedReq, bodyLimiters.get(clonedReq)!);
+    rootRequests.set(mountedReq, rootRequests.get(clonedReq)!);
+    deadlines.set(mountedReq, deadlines.get(clonedReq)!);
+
+    let response: Response;
+    try {
+      response = await handler(mountedReq);
+    } finally {
+      // Report the matched route, also to the error handlers of the parents
+      if (context.route !== undefined) {
+        clonedReq.route = context.route;
+        const own = mountContexts.get(req);
+        if (own) own.route = context.route;
+      }
+    }
+
+    if (context.unmatched) {
+      await response.body?.cancel();
+      // Pass the methods the mounted server allows for this path on to our 405/OPTIONS answer
+      if (context.allow) {
+        const merged = mountedAllow.get(clonedReq) ?? new Set<string>();
+        context.allow.forEach((allowedMethod) => merged.add(allowedMethod));
+        mountedAllow.set(clonedReq, merged);
       }
-      return ResponseHelper.error("Internal Server Error", 500);
+      return null;
     }
+    return response;
+  }
+
+  // Applies route headers, default headers and response hooks, rebuilding the response once
+  private finalizeResponse(req: Req, response: Response, route?: RouteDefinition): Response | Promise<Response> {
+    const defaults = { ...this.options.defaultHeaders, ...route?.headers };
+    if (Object.keys(defaults).length === 0 && this.responseHooks.length === 0) return response;
+
+    return ResponseHelper.withHeaders(response, async (headers) => {
+      for (const [name, value] of Object.entries(defaults)) {
+        if (!headers.has(name)) headers.set(name, value);
+      }
+      for (const hook of this.responseHooks) {
+        await hook(req, { status: response.status, headers });
+      }
+    });
   }
   
-  // find the matching route for the given method and pathname
-  private findMatchingRoute(method: string, pathname: string, url: URL) {
-    const routesForMethod = this.routes[method] || [];
-    
-    // Check regular routes
-    for (const route of routesForMethod) {
-      const match = route.regex.exec(pathname);
-      if (match) {
-        const params: Record<string, string> = {};
-        route.paramNames.forEach((name, index) => {
-          params[name] = match[index + 1];
-        });
-        
-        const query: Record<string, string> = {};
-        const searchParams = new URLSearchParams(url.search);
-        searchParams.forEach((value, key) => {
-          query[key] = value;
-        });
-        
-        return { handler: route.handler, route, params, query };
+  // Run the abandon hooks without letting a failing hook affect the request
+  private notifyAbandon(req: Req, deadline: RequestDeadline) {
+    const info: AbandonInfo = {
+      reason: deadline.error ? "timeout" : serveInfos.get(rootRequests.get(req)!)?.shutdownSignal?.aborted ? "shutdown" : "disconnect",
+      elapsed: Date.now() - deadline.start,
+      timeout: deadline.timeout,
+    };
+    for (const hook of this.abandonHooks) {
+      Promise.resolve().then(() => hook(req, info)).catch((error) => console.error("Abandon hook failed:", error));
+    }
+  }
+
+  // Render an error as problem details, with the stack trace in debug mode
+  private renderError(error: HttpError, req: Req): Response {
+    return error.toResponse({ instance: new URL(req.originalUrl).pathname, debug: this.options.debug });
+  }
+
+  // answer requests without a route for their method: 405, automatic OPTIONS or 404
+  private handleUnmatched(req: Request, clonedReq: Req, method: string, pathname: string) {
+    const allowed = new Set(this.router.allowedMethods(pathname));
+    mountedAllow.get(clonedReq)?.forEach((allowedMethod) => allowed.add(allowedMethod));
+    // OPTIONS is always allowed below. A path only an OPTIONS route (e.g. a "*" catch-all) matches is not found
+    allowed.delete("OPTIONS");
+    const mount = mountContexts.get(req);
+
+    if (allowed.size === 0) {
+      // A mounted server with its own not found handler answers for its whole prefix
+      if (this.options.notFoundHandler) return this.options.notFoundHandler(clonedReq);
+      if (mount) mount.unmatched = true;
+      return this.renderError(new NotFound(), clonedReq);
+    }
+
+    // WebSocket routes are reached with GET, plain GET requests have to upgrade
+    if (allowed.delete("WS")) {
+      if (method === "GET") {
+        const headers = { Upgrade: "websocket", Connection: "Upgrade" };
+        return this.renderError(new HttpError(426, "WebSocket upgrade required", { headers }), clonedReq);
       }
+      allowed.add("GET");
     }
-    
-    // Check wildcard route
-    if (this.wildcardRoutes[method]) {
-      return { 
-        handler: this.wildcardRoutes[method], 
-        route: null, 
-        params: {}, 
-        query: {} 
-      };
+    if (allowed.has("GET")) allowed.add("HEAD");
+    allowed.add("OPTIONS");
+
+    // A mounted server leaves the decision to its parent, which may have a route for this method
+    if (mount) {
+      mount.unmatched = true;
+      mount.allow = allowed;
+      return this.renderError(new NotFound(), clonedReq);
     }
-    
-    return null;
+
+    const allow = [...allowed].sort().join(", ");
+    if (method === "OPTIONS") {
+      return new Response(null, { status: 204, headers: { Allow: allow } });
+    }
+    return this.renderError(new MethodNotAllowed(undefined, { headers: { Allow: allow } }), clonedReq);
+  }
+
+  // find the matching route for the given method and pathname
+  private findMatchingRoute(method: string, pathname: string, url: URL) {
+    const match = this.router.find(method, pathname);
+    if (!match) {
+      return null;
+    }
+
+    const query: Record<string, string> = {};
+    url.searchParams.forEach((value, key) => {
+      query[key] = value;
+    });
+
+    return { handler: match.value.handler, route: match.value, pattern: match.pattern, params: match.params, query };
   }
   
   private processRouteMiddleware(
@@ -267,7 +786,9 @@ export class XebecServer {
     
     const runNext = async (): Promise<Response> => {
       if (middlewareIndex < middlewares.length) {
-        return await middlewares[middlewareIndex++](req, runNext);
+        const middleware = middlewares[middlewareIndex++];
+        req.trace?.push(middleware.name || "anonymous");
+        return await middleware(req, runNext);
       }
       return await finalHandler(req);
     };
@@ -275,40 +796,254 @@ export class XebecServer {
     return runNext();
   }
   
-  private async applyRouteOptions(
-    clonedReq: Req,
-    route: {
-      options?: {
-        parseJson?: boolean;
-        parseUrlEncoded?: boolean;
-        validate?: (req: Req) => Promise<boolean> | boolean;
-      };
-    } | null,
-    originalReq: Request
-  ): Promise<void> {
-    if (!route?.options) return;
+  private async applyRouteOptions(clonedReq: Req, route: RouteDefinition): Promise<Response | null> {
+    const { options, schema } = route;
+    if (!options && !schema) return null;
+
+    const contentType = clonedReq.headers.get("content-type") ?? "";
+    let body: { value: unknown } | null = null;
     
-    // Parse JSON body if needed
-    if (route.options.parseJson && 
-        originalReq.headers.get("content-type")?.includes("application/json")) {
-      const body = await originalReq.json();
-      (clonedReq as unknown as { body: unknown }).body = body;
+    try {
+      // Parse JSON body if needed
+      if (options?.parseJson && contentType.includes("application/json")) {
+        body = { value: await clonedReq.json() };
+      }
+      
+      // Parse URL encoded form data if needed
+      if (options?.parseUrlEncoded && contentType.includes("application/x-www-form-urlencoded")) {
+        const form = await clonedReq.formData();
+        body = {
+          value: Object.fromEntries(Array.from(form.entries(), ([key, value]) => [key, value.toString()])),
+        };
+      }
+
+      // Stream multipart bodies, files go to disk or the configured sink
+      if (options?.multipart && contentType.includes("multipart/form-data") && clonedReq.body) {
+        const { fields, files, cleanup } = await readMultipart(clonedReq.body, contentType, options.multipart);
+        body = { value: fields };
+        clonedReq.files = files;
+        uploadCleanups.set(clonedReq, cleanup);
+      }
+
+      // Body schemas need a parsed body whatever the content type
+      if (schema?.body && !body) {
+        body = { value: await readBody(clonedReq, contentType) };
+      }
+    } catch (error) {
+      if (error instanceof SyntaxError) {
+        return this.renderError(new BadRequest("Malformed request body"), clonedReq);
+      }
+      if (error instanceof MultipartError) {
+        return this.renderError(error, clonedReq);
+      }
+      throw error;
+    }
+
+    if (body) {
+      setBody(clonedReq, body.value);
     }
     
-    // Parse URL encoded form data if needed
-    if (route.options.parseUrlEncoded && 
-        originalReq.headers.get("content-type")?.includes("application/x-www-form-urlencoded")) {
-      const body = await originalReq.formData();
-      (clonedReq as unknown as { body: Record<string, string> }).body =
-        Object.fromEntries(Array.from(body.entries(), ([key, value]) => [key, value.toString()]));
+    if (schema) {
+      const rejected = this.applySchema(clonedReq, schema, body?.value);
+      if (rejected) return rejected;
     }
     
     // Validate request if validator provided
-    if (route.options.validate) {
-      const isValid = await route.options.validate(clonedReq);
+    if (options?.validate) {
+      const isValid = await options.validate(clonedReq);
       if (!isValid) {
-        throw new Error("Validation failed");
+        return this.renderError(new UnprocessableEntity("Validation failed"), clonedReq);
+      }
+    }
+
+    return null;
+  }
+
+  // validate the request against the route schema, replacing its values with the coerced ones
+  private applySchema(clonedReq: Req, schema: RouteSchema, body: unknown): Response | null {
+    const issues: { path: string; message: string }[] = [];
+    const check = (source: keyof RouteSchema, value: unknown) => {
+      const result = schema[source]!.validate(value);
+      if (result.success) {
+        return result.value;
       }
+      issues.push(...result.issues.map((issue) => ({
+        path: [source, ...issue.path].join("."),
+        message: issue.message,
+      })));
+      return value;
+    };
+
+    if (schema.params) {
+      clonedReq.params = check("params", clonedReq.params) as Record<string, string>;
+    }
+    if (schema.query) {
+      clonedReq.query = check("query", clonedReq.query) as Record<string, string>;
+    }
+    if (schema.headers) {
+      check("headers", Object.fromEntries(clonedReq.headers.entries()));
     }
+    if (schema.body) {
+      setBody(clonedReq, check("body", body));
+    }
+
+    if (issues.length === 0) return null;
+
+    // Malformed URLs and headers are bad requests, a well-formed request with an invalid body is unprocessable
+    const status = issues.some((issue) => !issue.path.startsWith("body")) ? 400 : 422;
+    return this.renderError(new HttpError(status, "Validation failed", { extensions: { issues } }), clonedReq);
+  }
+}
+
+// Registers the routes of a group on its server
+interface GroupRegistrar {
+  route(method: string, path: string, handler: Handler, config: Omit<RouteConfig, Config>): void;
+  ws(path: string, handlers: WebSocketHandlers<Record<string, string>>, config: WebSocketConfig): void;
+}
+
+/**
+ * Routes sharing a path prefix, middleware, options, headers and an error handler, created by `XebecServer.group()`.
+ * The routes are registered on the server with their full path, so `routes()` and OpenAPI documents list them as usual.
+ */
+export class RouteGroup<BaseParams extends Record<string, string> = Record<never, never>> {
+  constructor(
+    private readonly prefix: string,
+    private readonly config: GroupConfig,
+    private readonly registrar: GroupRegistrar
+  ) {}
+
+  GET<P extends string, S extends RouteSchema = RouteSchema>(
+    path: P,
+    callback: Handler<TypedReq<S, RouteParams<BaseParams, P>>>,
+    config?: Omit<RouteConfig<S>, Config>
+  ) {
+    this.addRoute("GET", path, callback, config);
+  }
+
+  POST<P extends string, S extends RouteSchema = RouteSchema>(
+    path: P,
+    callback: Handler<TypedReq<S, RouteParams<BaseParams, P>>>,
+    config?: Omit<RouteConfig<S>, Config>
+  ) {
+    this.addRoute("POST", path, callback, config);
+  }
+
+  OPTIONS<P extends string, S extends RouteSchema = RouteSchema>(
+    path: P,
+    callback: Handler<TypedReq<S, RouteParams<BaseParams, P>>>,
+    config?: Omit<RouteConfig<S>, Config>
+  ) {
+    this.addRoute("OPTIONS", path, callback, config);
+  }
+
+  PUT<P extends string, S extends RouteSchema = RouteSchema>(
+    path: P,
+    callback: Handler<TypedReq<S, RouteParams<BaseParams, P>>>,
+    config?: Omit<RouteConfig<S>, Config>
+  ) {
+    this.addRoute("PUT", path, callback, config);
+  }
+
+  DELETE<P extends string, S extends RouteSchema = RouteSchema>(
+    path: P,
+    callback: Handler<TypedReq<S, RouteParams<BaseParams, P>>>,
+    config?: Omit<RouteConfig<S>, Config>
+  ) {
+    this.addRoute("DELETE", path, callback, config);
+  }
+
+  PATCH<P extends string, S extends RouteSchema = RouteSchema>(
+    path: P,
+    callback: Handler<TypedReq<S, RouteParams<BaseParams, P>>>,
+    config?: Omit<RouteConfig<S>, Config>
+  ) {
+    this.addRoute("PATCH", path, callback, config);
+  }
+
+  // WebSocket route behind the group's middleware
+  WS<P extends string>(
+    path: P,
+    handlers: WebSocketHandlers<RouteParams<BaseParams, P>>,
+    config: WebSocketConfig = {}
+  ) {
+    const { middleware } = mergeGroupConfig({ middleware: this.config.middleware }, { middleware: config.middleware });
+    this.registrar.ws(this.fullPath(path), handlers as WebSocketHandlers<Record<string, string>>, {
+      ...config,
+      middleware,
+    });
+  }
+
+  // Nested group, its settings are merged with those of this group
+  group<P extends string>(
+    prefix: P,
+    config: GroupConfig,
+    define: (group: RouteGroup<RouteParams<BaseParams, P>>) => void
+  ): RouteGroup<RouteParams<BaseParams, P>>;
+  group<P extends string>(
+    prefix: P,
+    define: (group: RouteGroup<RouteParams<BaseParams, P>>) => void
+  ): RouteGroup<RouteParams<BaseParams, P>>;
+  group<P extends string>(
+    prefix: P,
+    configOrDefine: GroupConfig | ((group: RouteGroup<RouteParams<BaseParams, P>>) => void),
+    define?: (group: RouteGroup<RouteParams<BaseParams, P>>) => void
+  ): RouteGroup<RouteParams<BaseParams, P>> {
+    const config = typeof configOrDefine === "function" ? {} : configOrDefine;
+    const group = new RouteGroup<RouteParams<BaseParams, P>>(
+      this.fullPath(prefix),
+      mergeGroupConfig(this.config, config),
+      this.registrar
+    );
+    (typeof configOrDefine === "function" ? configOrDefine : define!)(group);
+    return group;
+  }
+
+  // The group's own path is registered without a trailing slash
+  private fullPath(path: string): string {
+    return path === "/" || path === "" ? this.prefix : joinPath(this.prefix, path);
+  }
+
+  private addRoute<S extends RouteSchema>(
+    method: string,
+    path: string,
+    handler: unknown,
+    config?: Omit<RouteConfig<S>, Config>
+  ) {
+    this.registrar.route(
+      method,
+      this.fullPath(path),
+      // The schema guarantees the typed view of the request at runtime
+      handler as Handler,
+      mergeGroupConfig(this.config, (config ?? {}) as Omit<RouteConfig, Config>)
+    );
+  }
+}
+
+// Shadow the body stream of the request with its parsed value
+function setBody(req: Req, value: unknown) {
+  Object.defineProperty(req, "body", { value, configurable: true, enumerable: true, writable: true });
+}
+
+// Parse a request body according to its content type
+async function readBody(req: Request, contentType: string): Promise<unknown> {
+  if (contentType.includes("application/json")) {
+    return await req.json();
+  }
+  if (contentType.includes("application/x-www-form-urlencoded") || contentType.includes("multipart/form-data")) {
+    const form = await req.formData();
+    const body: Record<string, FormDataEntryValue | FormDataEntryValue[]> = {};
+    form.forEach((value, key) => {
+      const existing = body[key];
+      if (existing === undefined) {
+        body[key] = value;
+      } else {
+        body[key] = Array.isArray(existing) ? [...existing, value] : [existing, value];
+      }
+    });
+    return body;
+  }
+  if (!req.body) {
+    return undefined;
   }
+  return await req.text();
 }
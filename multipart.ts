@@ -0,0 +1,350 @@
+import { HttpError } from "./errors.ts";
+
+/**
+ * Options for parsing `multipart/form-data` request bodies
+ */
+export interface MultipartOptions {
+  /** Maximum size of a single file in bytes (default: 10MB) */
+  maxFileSize?: number;
+  /** Maximum number of files (default: 10) */
+  maxFiles?: number;
+  /** Maximum number of non-file fields (default: 100) */
+  maxFields?: number;
+  /** Maximum size of a single non-file field in bytes (default: 64KB) */
+  maxFieldSize?: number;
+  /** Accepted file MIME types, e.g. `["image/*", "application/pdf"]`. Other files are rejected with 415 */
+  allowedTypes?: string[];
+  /** Directory files are spooled to (default: a new temporary directory) */
+  tempDir?: string;
+  /**
+   * Receives each file as a stream instead of spooling it to disk.
+   * The returned value is exposed as `data` on the uploaded file. The request is answered with 500,
+   * or the `HttpError` thrown, when the sink fails or returns before reading the whole file.
+   */
+  sink?: (file: { field: string; filename: string; type: string; stream: ReadableStream<Uint8Array> }) => Promise<unknown>;
+}
+
+/**
+ * A file received in a multipart request
+ */
+export interface UploadedFile {
+  /** Name of the form field */
+  field: string;
+  /** Sanitized file name, safe to use as a path segment */
+  filename: string;
+  /** File name as sent by the client */
+  originalName: string;
+  /** MIME type sent by the client */
+  type: string;
+  /** Size in bytes */
+  size: number;
+  /** Location of the spooled file. Removed once the handler returns, move it to keep it */
+  path?: string;
+  /** Value returned by the custom sink */
+  data?: unknown;
+}
+
+/**
+ * Error raised when a multipart body is malformed or exceeds a limit
+ */
+export class MultipartError extends HttpError {
+  constructor(message: string, status: number) {
+    super(status, message);
+    this.name = "MultipartError";
+  }
+}
+
+type MultipartEvent =
+  | { kind: "part"; headers: Headers }
+  | { kind: "data"; chunk: Uint8Array }
+  | { kind: "end" };
+
+const CRLF = new Uint8Array([13, 10]);
+const HEADER_END = new Uint8Array([13, 10, 13, 10]);
+const MAX_HEADER_SIZE = 16 * 1024;
+
+function indexOf(haystack: Uint8Array, needle: Uint8Array, from = 0): number {
+  outer: for (let i = from; i <= haystack.length - needle.length; i++) {
+    for (let j = 0; j < needle.length; j++) {
+      if (haystack[i + j] !== needle[j]) continue outer;
+    }
+    return i;
+  }
+  return -1;
+}
+
+function concat(a: Uint8Array, b: Uint8Array): Uint8Array {
+  const result = new Uint8Array(a.length + b.length);
+  result.set(a);
+  result.set(b, a.length);
+  return result;
+}
+
+/**
+ * Gets the boundary from a `multipart/form-data` content type
+ */
+export function getBoundary(contentType: string): string | null {
+  const match = /boundary=(?:"([^"]+)"|([^;\s]+))/i.exec(contentType);
+  return match ? match[1] ?? match[2] : null;
+}
+
+/**
+ * Parses a multipart stream incrementally. Only as much of the body is read as is needed
+ * to produce the next event, so consumers control the pace of the upload.
+ */
+async function* parseParts(stream: ReadableStream<Uint8Array>, boundary: string): AsyncGenerator<MultipartEvent> {
+  const encoder = new TextEncoder();
+  const firstDelimiter = encoder.encode(`--${boundary}`);
+  const delimiter = encoder.encode(`\r\n--${boundary}`);
+  const reader = stream.getReader();
+  let buffer: Uint8Array = new Uint8Array(0);
+  let done = false;
+
+  const fill = async () => {
+    const result = await reader.read();
+    if (result.done) {
+      done = true;
+    } else {
+      buffer = concat(buffer, result.value);
+    }
+  };
+
+  try {
+    // Skip the preamble
+    let start = indexOf(buffer, firstDelimiter);
+    while (start === -1) {
+      if (done) throw new MultipartError("Malformed multipart body", 400);
+      await fill();
+      start = indexOf(buffer, firstDelimiter);
+    }
+    buffer = buffer.subarray(start + firstDelimiter.length);
+
+    while (true) {
+      // After a delimiter comes either "--" (end of body) or CRLF and the next part
+      while (buffer.length < 2 && !done) await fill();
+      if (buffer[0] === 45 && buffer[1] === 45) return;
+      if (buffer[0] !== CRLF[0] || buffer[1] !== CRLF[1]) {
+        throw new MultipartError("Malformed multipart body", 400);
+      }
+      buffer = buffer.subarray(2);
+
+      // Part headers
+      let headerEnd = indexOf(buffer, HEADER_END);
+      while (headerEnd === -1) {
+        if (done) throw new MultipartError("Malformed multipart body", 400);
+        if (buffer.length > MAX_HEADER_SIZE) throw new MultipartError("Multipart headers too large", 431);
+        await fill();
+        headerEnd = indexOf(buffer, HEADER_END);
+      }
+      const headers = new Headers();
+      for (const line of new TextDecoder().decode(buffer.subarray(0, headerEnd)).split("\r\n")) {
+        const separator = line.indexOf(":");
+        if (separator > 0) headers.append(line.slice(0, separator).trim(), line.slice(separator + 1).trim());
+      }
+      buffer = buffer.subarray(headerEnd + HEADER_END.length);
+      yield { kind: "part", headers };
+
+      // Part body, emitted as it arrives while holding back a possible partial delimiter
+      while (true) {
+        const end = indexOf(buffer, delimiter);
+        if (end !== -1) {
+          if (end > 0) yield { kind: "data", chunk: buffer.slice(0, end) };
+          buffer = buffer.subarray(end + delimiter.length);
+          break;
+        }
+        const safe = buffer.length - delimiter.length;
+        if (safe > 0) {
+          yield { kind: "data", chunk: buffer.slice(0, safe) };
+          buffer = buffer.subarray(safe);
+        }
+        if (done) throw new MultipartError("Unexpected end of multipart body", 400);
+        await fill();
+      }
+      yield { kind: "end" };
+    }
+  } finally {
+    reader.releaseLock();
+  }
+}
+
+function parseDisposition(header: string | null): { name?: string; filename?: string } {
+  const result: Record<string, string> = {};
+  for (const match of (header ?? "").matchAll(/;\s*([\w*]+)=(?:"((?:[^"\\]|\\.)*)"|([^;]*))/g)) {
+    const key = match[1].toLowerCase();
+    const value = match[2]?.replace(/\\(.)/g, "$1") ?? match[3].trim();
+    if (key === "filename*") {
+      // RFC 5987 encoded value: charset'language'percent-encoded
+      try {
+        result.filename = decodeURIComponent(value.slice(value.indexOf("'", value.indexOf("'") + 1) + 1));
+      } catch {
+        // Keep the plain filename
+      }
+    } else if (!(key === "filename" && result.filename)) {
+      result[key] = value;
+    }
+  }
+  return result;
+}
+
+/**
+ * Makes a client supplied file name safe to use as a single path segment
+ */
+export function sanitizeFilename(name: string): string {
+  const base = name.split(/[\\/]/).pop() ?? "";
+  const cleaned = base
+    .replace(/[^\p{L}\p{N}._\- ]/gu, "_")
+    .replace(/^[.\s]+/, "")
+    .trim()
+    .slice(0, 255);
+  return cleaned || "file";
+}
+
+function isAllowedType(type: string, allowed: string[]): boolean {
+  return allowed.some((pattern) =>
+    pattern.endsWith("/*") ? type.startsWith(pattern.slice(0, -1)) : pattern === type
+  );
+}
+
+async function writeAll(file: Deno.FsFile, chunk: Uint8Array) {
+  let written = 0;
+  while (written < chunk.length) {
+    written += await file.write(chunk.subarray(written));
+  }
+}
+
+/**
+ * Streams a multipart body, enforcing the limits, spooling files to disk or to the sink.
+ * @throws {MultipartError} When the body is malformed or exceeds a limit
+ */
+export async function readMultipart(
+  body: ReadableStream<Uint8Array>,
+  contentType: string,
+  options: MultipartOptions = {},
+): Promise<{ fields: Record<string, string | string[]>; files: UploadedFile[]; cleanup: () => Promise<void> }> {
+  const {
+    maxFileSize = 10 * 1024 * 1024,
+    maxFiles = 10,
+    maxFields = 100,
+    maxFieldSize = 64 * 1024,
+    allowedTypes,
+    sink,
+  } = options;
+
+  const boundary = getBoundary(contentType);
+  if (!boundary) throw new MultipartError("Missing multipart boundary", 400);
+
+  const fields: Record<string, string | string[]> = {};
+  const files: UploadedFile[] = [];
+  let fieldCount = 0;
+  let tempDir = options.tempDir;
+  let createdDir: string | null = null;
+
+  // Removes the spooled files, ignoring files the handler already moved
+  const cleanup = async () => {
+    await Promise.all(files.map((file) => file.path ? Deno.remove(file.path).catch(() => {}) : undefined));
+    if (createdDir) await Deno.remove(createdDir, { recursive: true }).catch(() => {});
+  };
+
+  // State of the part being read
+  let field: { name: string; chunks: Uint8Array[]; size: number } | null = null;
+  let file: {
+    info: UploadedFile;
+    handle?: Deno.FsFile;
+    writer?: WritableStreamDefaultWriter<Uint8Array>;
+    controller?: TransformStreamDefaultController<Uint8Array>;
+    result?: Promise<unknown>;
+    stopped?: Promise<never>;
+  } | null = null;
+
+  try {
+    for await (const event of parseParts(body, boundary)) {
+      if (event.kind === "part") {
+        const { name, filename } = parseDisposition(event.headers.get("content-disposition"));
+        if (!name) throw new MultipartError("Multipart part without a field name", 400);
+
+        if (filename === undefined) {
+          if (++fieldCount > maxFields) throw new MultipartError("Too many fields", 413);
+          field = { name, chunks: [], size: 0 };
+          continue;
+        }
+
+        if (files.length >= maxFiles) throw new MultipartError("Too many files", 413);
+        const type = event.headers.get("content-type")?.split(";")[0].trim() || "application/octet-stream";
+        if (allowedTypes && !isAllowedType(type, allowedTypes)) {
+          throw new MultipartError(`File type ${type} is not allowed`, 415);
+        }
+
+        const info: UploadedFile = { field: name, filename: sanitizeFilename(filename), originalName: filename, type, size: 0 };
+        files.push(info);
+        if (sink) {
+          let controller!: TransformStreamDefaultController<Uint8Array>;
+          const { readable, writable } = new TransformStream<Uint8Array, Uint8Array>({ start: (transform) => { controller = transform; } });
+          const result = Promise.resolve()
+            .then(() => sink({ field: name, filename: info.filename, type, stream: readable }))
+            .catch((error) => {
+              throw error instanceof HttpError ? error : new MultipartError("Upload could not be stored", 500);
+            });
+          // Rejects when the sink fails or returns before reading the whole file, so writes do not wait forever
+          const stopped = result.then(() => {
+            throw new MultipartError("Upload sink stopped reading the file", 500);
+          });
+          result.catch(() => {});
+          stopped.catch(() => {});
+          file = { info, writer: writable.getWriter(), controller, result, stopped };
+        } else {
+          if (!tempDir) {
+            tempDir = createdDir = await Deno.makeTempDir({ prefix: "xebec-upload-" });
+          }
+          info.path = `${tempDir}/${crypto.randomUUID()}`;
+          file = { info, handle: await Deno.open(info.path, { write: true, createNew: true }) };
+        }
+      } else if (event.kind === "data") {
+        if (field) {
+          field.size += event.chunk.length;
+          if (field.size > maxFieldSize) throw new MultipartError(`Field "${field.name}" is too large`, 413);
+          field.chunks.push(event.chunk);
+        } else if (file) {
+          file.info.size += event.chunk.length;
+          if (file.info.size > maxFileSize) {
+            throw new MultipartError(`File "${file.info.filename}" exceeds ${maxFileSize} bytes`, 413);
+          }
+          if (file.writer) {
+            await Promise.race([file.writer.write(event.chunk), file.stopped]);
+          } else {
+            await writeAll(file.handle!, event.chunk);
+          }
+        }
+      } else {
+        if (field) {
+          const value = new TextDecoder().decode(
+            field.chunks.reduce((all, chunk) => concat(all, chunk), new Uint8Array(0)),
+          );
+          const existing = fields[field.name];
+          fields[field.name] = existing === undefined
+            ? value
+            : Array.isArray(existing) ? [...existing, value] : [existing, value];
+          field = null;
+        } else if (file) {
+          if (file.writer) {
+            await Promise.race([file.writer.close(), file.result]);
+            file.info.data = await file.result;
+          } else {
+            file.handle!.close();
+          }
+          file = null;
+        }
+      }
+    }
+  } catch (error) {
+    if (file?.writer) {
+      // Erroring the stream also releases a write waiting for a sink that stopped reading, unlike abort()
+      file.controller!.error(error);
+      await file.result?.catch(() => {});
+    }
+    file?.handle?.close();
+    await cleanup();
+    throw error;
+  }
+
+  return { fields, files, cleanup };
+}
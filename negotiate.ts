@@ -0,0 +1,127 @@
+import { NotAcceptable } from "./errors.ts";
+
+/**
+ * Turns data into a response body for one media type
+ */
+export type Serializer = (data: unknown) => BodyInit | Promise<BodyInit>;
+
+/**
+ * Options for content negotiation
+ */
+export interface NegotiateOptions {
+  /** Media types to offer, in order of preference (default: every serializer) */
+  formats?: string[];
+  /** Status of the response (default: 200) */
+  status?: number;
+  /** Additional response headers */
+  headers?: Record<string, string>;
+  /** Serializers by media type (default: the built-in ones) */
+  serializers?: Record<string, Serializer>;
+}
+
+function isIterable(data: unknown): data is Iterable<unknown> | AsyncIterable<unknown> {
+  return typeof data === "object" && data !== null && typeof data !== "string" &&
+    (Symbol.asyncIterator in data || Symbol.iterator in data);
+}
+
+// Streams lines produced from every item of a (possibly async) iterable
+function lineStream(items: Iterable<unknown> | AsyncIterable<unknown>, toLines: (item: unknown) => string): ReadableStream<Uint8Array> {
+  async function* lines() {
+    for await (const item of items) yield toLines(item);
+  }
+  return ReadableStream.from(lines()).pipeThrough(new TextEncoderStream());
+}
+
+function csvField(value: unknown): string {
+  const text = value === null || value === undefined
+    ? ""
+    : typeof value === "object" ? JSON.stringify(value) : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Serializes rows to CSV. Rows are arrays of values, or objects whose keys
+ * of the first row become the header
+ */
+function csv(data: unknown): BodyInit {
+  const rows = isIterable(data) ? data : [data];
+  let columns: string[] | null = null;
+  return lineStream(rows, (row) => {
+    if (Array.isArray(row)) return row.map(csvField).join(",") + "\r\n";
+
+    const record = (row ?? {}) as Record<string, unknown>;
+    let line = "";
+    if (!columns) {
+      columns = Object.keys(record);
+      line = columns.map(csvField).join(",") + "\r\n";
+    }
+    return line + columns.map((column) => csvField(record[column])).join(",") + "\r\n";
+  });
+}
+
+/**
+ * The built-in serializers: JSON, NDJSON (streamed from iterables), CSV and plain text
+ */
+export const defaultSerializers: Record<string, Serializer> = {
+  "application/json": (data) => JSON.stringify(data),
+  "application/x-ndjson": (data) =>
+    isIterable(data) ? lineStream(data, (item) => JSON.stringify(item) + "\n") : JSON.stringify(data) + "\n",
+  "text/csv": csv,
+  "text/plain": (data) => typeof data === "string" ? data : JSON.stringify(data, null, 2),
+};
+
+/**
+ * Picks the media type the `Accept` header prefers. The most specific matching range
+ * decides the q-value of a type, ties go to the earlier type
+ * @param accept - The `Accept` header
+ * @param available - The media types on offer, in order of preference
+ * @returns The selected media type, or null when none is acceptable
+ */
+export function negotiateMediaType(accept: string | null, available: string[]): string | null {
+  if (!accept) return available[0] ?? null;
+
+  const ranges = accept.split(",").map((part) => {
+    const [range, ...params] = part.split(";").map((value) => value.trim().toLowerCase());
+    const q = params.find((param) => param.startsWith("q="));
+    return { range, q: q ? Number(q.slice(2)) || 0 : 1 };
+  });
+
+  let best: string | null = null;
+  let bestWeight = 0;
+  for (const type of available) {
+    const [main] = type.toLowerCase().split("/");
+    const match = ranges.find(({ range }) => range === type.toLowerCase()) ??
+      ranges.find(({ range }) => range === `${main}/*`) ??
+      ranges.find(({ range }) => range === "*/*");
+    if (match && match.q > bestWeight) {
+      best = type;
+      bestWeight = match.q;
+    }
+  }
+  return best;
+}
+
+/**
+ * Serializes data in the format the client prefers, answering 406 when no format is acceptable
+ * @param req - The request whose `Accept` header is negotiated
+ * @param data - The data to serialize
+ * @param options - The negotiation options
+ */
+export async function negotiate(req: Request, data: unknown, options: NegotiateOptions = {}): Promise<Response> {
+  const serializers = options.serializers ?? defaultSerializers;
+  const formats = options.formats ?? Object.keys(serializers);
+  const headers = new Headers(options.headers);
+  headers.set("Vary", "Accept");
+
+  const type = negotiateMediaType(req.headers.get("accept"), formats);
+  if (!type) {
+    return new NotAcceptable(undefined, { extensions: { accepted: formats }, headers: Object.fromEntries(headers) })
+      .toResponse();
+  }
+
+  const serializer = serializers[type];
+  if (!serializer) throw new Error(`No serializer registered for ${type}`);
+
+  headers.set("Content-Type", type.startsWith("text/") ? `${type}; charset=utf-8` : type);
+  return new Response(await serializer(data), { status: options.status ?? 200, headers });
+}
@@ -0,0 +1,162 @@
+import type { RouteInfo } from "./types.ts";
+import type { Schema } from "./schema.ts";
+import { pathTemplates } from "./router.ts";
+
+/**
+ * Options for generating an OpenAPI document
+ */
+export interface OpenAPIOptions {
+  /** Title, version and description of the API */
+  info: { title: string; version: string; description?: string };
+  /** Base URLs the API is served from */
+  servers?: { url: string; description?: string }[];
+}
+
+type JsonObject = Record<string, unknown>;
+
+function schemaOf(schema: Schema | undefined): JsonObject {
+  return schema?.jsonSchema ?? {};
+}
+
+// Turns the properties of an object schema into parameters of the given location
+function parametersOf(schema: Schema | undefined, location: "query" | "header"): JsonObject[] {
+  const json = schemaOf(schema);
+  const properties = (json.properties ?? {}) as Record<string, JsonObject>;
+  const required = (json.required ?? []) as string[];
+  return Object.entries(properties).map(([name, property]) => ({
+    name,
+    in: location,
+    required: required.includes(name),
+    schema: property,
+  }));
+}
+
+function operationOf(route: RouteInfo, pathParams: string[]): JsonObject {
+  const { schema, options } = route.config;
+  const paramProperties = (schemaOf(schema?.params).properties ?? {}) as Record<string, JsonObject>;
+
+  const parameters = [
+    ...pathParams.map((name) => ({
+      name,
+      in: "path",
+      required: true,
+      schema: paramProperties[name] ?? { type: "string" },
+    })),
+    ...parametersOf(schema?.query, "query"),
+    ...parametersOf(schema?.headers, "header"),
+  ];
+
+  const operation: JsonObject = {};
+  for (const key of ["operationId", "summary", "description", "tags", "deprecated"] as const) {
+    if (route.config[key] !== undefined) operation[key] = route.config[key];
+  }
+  if (parameters.length) operation.parameters = parameters;
+
+  if (schema?.body) {
+    operation.requestBody = {
+      required: !schema.body.optional,
+      content: { [options?.multipart ? "multipart/form-data" : "application/json"]: { schema: schemaOf(schema.body) } },
+    };
+  } else if (options?.multipart) {
+    operation.requestBody = { content: { "multipart/form-data": { schema: {} } } };
+  }
+
+  const responses: JsonObject = {};
+  for (const [status, response] of Object.entries(route.config.responses ?? { 200: { description: "Successful response" } })) {
+    responses[status] = response.schema
+      ? { description: response.description, content: { [response.contentType ?? "application/json"]: { schema: schemaOf(response.schema) } } }
+      : { description: response.description };
+  }
+  // Failed validations are answered by the server itself
+  if ((schema?.params || schema?.query || schema?.headers) && !responses[400]) {
+    responses[400] = { description: "Invalid parameters" };
+  }
+  if (schema?.body && !responses[422]) {
+    responses[422] = { description: "Invalid request body" };
+  }
+  operation.responses = responses;
+
+  return operation;
+}
+
+/**
+ * Generates an OpenAPI 3.1 document from the routes of a server, including mounted servers.
+ * `:param` paths become `{param}` templates and optional params produce one path per variant.
+ * WebSocket and hidden routes are left out.
+ * @param source - The server, or anything listing routes
+ * @param options - The API information
+ */
+export function openapi(source: { routes(): RouteInfo[] }, options: OpenAPIOptions): JsonObject {
+  const paths: Record<string, JsonObject> = {};
+
+  for (const route of source.routes()) {
+    if (route.method === "WS" || route.config.hidden) continue;
+
+    for (const template of pathTemplates(route.path)) {
+      const pathParams = [...template.matchAll(/\{([^}]+)\}/g)].map((match) => match[1]);
+      paths[template] ??= {};
+      paths[template][route.method.toLowerCase()] = operationOf(route, pathParams);
+    }
+  }
+
+  const document: JsonObject = { openapi: "3.1.0", info: options.info };
+  if (options.servers) document.servers = options.servers;
+  document.paths = paths;
+  return document;
+}
+
+function escapeHtml(text: string): string {
+  return text.replace(/[&<>"']/g, (char) => `&#${char.charCodeAt(0)};`);
+}
+
+/**
+ * Renders a self-contained HTML page listing the operations of an OpenAPI document
+ * @param specUrl - URL of the OpenAPI document, fetched by the page
+ * @param title - Title of the page
+ */
+export function openapiDocsPage(specUrl: string, title: string): string {
+  return `<!doctype html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${escapeHtml(title)}</title>
+<style>
+  body { font: 15px/1.5 system-ui, sans-serif; max-width: 960px; margin: 2rem auto; padding: 0 1rem; color: #1f2328; }
+  details { border: 1px solid #d0d7de; border-radius: 6px; margin: .5rem 0; }
+  summary { cursor: pointer; padding: .5rem .75rem; }
+  .method { display: inline-block; min-width: 4.5rem; font-weight: 600; text-transform: uppercase; }
+  .deprecated { text-decoration: line-through; }
+  section { padding: 0 .75rem .75rem; }
+  pre { background: #f6f8fa; padding: .5rem; overflow: auto; }
+</style>
+</head>
+<body>
+<h1>${escapeHtml(title)}</h1>
+<div id="operations">Loading ${escapeHtml(specUrl)}...</div>
+<script>
+  const escape = (text) => String(text).replace(/[&<>"']/g, (char) => "&#" + char.charCodeAt(0) + ";");
+  const json = (value) => "<pre>" + escape(JSON.stringify(value, null, 2)) + "</pre>";
+  fetch(${JSON.stringify(specUrl)}).then((response) => response.json()).then((spec) => {
+    let html = spec.info.description ? "<p>" + escape(spec.info.description) + "</p>" : "";
+    for (const [path, operations] of Object.entries(spec.paths)) {
+      for (const [method, operation] of Object.entries(operations)) {
+        html += "<details><summary class='" + (operation.deprecated ? "deprecated" : "") + "'>" +
+          "<span class='method'>" + escape(method) + "</span> <code>" + escape(path) + "</code> " +
+          escape(operation.summary ?? "") + "</summary><section>";
+        if (operation.description) html += "<p>" + escape(operation.description) + "</p>";
+        if (operation.tags) html += "<p>Tags: " + operation.tags.map(escape).join(", ") + "</p>";
+        if (operation.parameters) html += "<h4>Parameters</h4>" + json(operation.parameters);
+        if (operation.requestBody) html += "<h4>Request body</h4>" + json(operation.requestBody.content);
+        html += "<h4>Responses</h4>" + json(operation.responses) + "</section></details>";
+      }
+    }
+    document.getElementById("operations").innerHTML = html || "No operations";
+  }).catch((error) => {
+    document.getElementById("operations").textContent = "Failed to load the API description: " + error;
+  });
+</script>
+</body>
+</html>
+`;
+}
@@ -0,0 +1,195 @@
+/**
+ * Which proxies in front of the server are trusted to report the client in `Forwarded` and `X-Forwarded-*` headers:
+ * - `true` trusts every hop, `false` none (the default)
+ * - a number trusts that many hops, counting the connection peer as the first
+ * - addresses or CIDR ranges, as an array or a comma separated string. The names
+ *   `loopback`, `linklocal` and `uniquelocal` stand for the matching reserved ranges
+ * - a function deciding per address and hop (0 is the connection peer)
+ */
+export type TrustProxy = boolean | number | string | string[] | ((address: string, hop: number) => boolean);
+
+/**
+ * Client details derived from the connection and trusted proxy headers
+ */
+export interface ClientInfo {
+  /** Client IP address, empty when unknown */
+  ip: string;
+  /** Forwarded addresses from the client to the closest trusted proxy, empty unless a proxy is trusted */
+  ips: string[];
+  /** "http" or "https" as used by the client */
+  protocol: string;
+  /** Host, with port when not the default, as requested by the client */
+  host: string;
+  /** Whether the client used HTTPS */
+  secure: boolean;
+}
+
+const NAMED_RANGES: Record<string, string[]> = {
+  loopback: ["127.0.0.0/8", "::1/128"],
+  linklocal: ["169.254.0.0/16", "fe80::/10"],
+  uniquelocal: ["10.0.0.0/8", "172.16.0.0/12", "192.168.0.0/16", "fc00::/7"],
+};
+
+type ParsedIp = { version: 4 | 6; value: bigint };
+
+function parseIPv4(address: string): bigint | null {
+  const match = /^(\d{1,3})\.(\d{1,3})\.(\d{1,3})\.(\d{1,3})$/.exec(address);
+  if (!match) return null;
+  const octets = match.slice(1).map(Number);
+  if (octets.some((octet) => octet > 255)) return null;
+  return octets.reduce((value, octet) => (value << 8n) | BigInt(octet), 0n);
+}
+
+/**
+ * Parses an IPv4 or IPv6 address. IPv4-mapped IPv6 addresses are returned as IPv4
+ */
+export function parseIp(address: string): ParsedIp | null {
+  const v4 = parseIPv4(address);
+  if (v4 !== null) return { version: 4, value: v4 };
+
+  let text = address.replace(/%.*$/, "").toLowerCase();
+  // An embedded IPv4 address becomes the last two groups
+  const embedded = /(\d{1,3}(?:\.\d{1,3}){3})$/.exec(text);
+  if (embedded) {
+    const value = parseIPv4(embedded[1]);
+    if (value === null) return null;
+    text = text.slice(0, -embedded[1].length) + `${(value >> 16n).toString(16)}:${(value & 0xffffn).toString(16)}`;
+  }
+
+  const halves = text.split("::");
+  if (halves.length > 2) return null;
+  const head = halves[0] ? halves[0].split(":") : [];
+  const tail = halves.length === 2 && halves[1] ? halves[1].split(":") : [];
+  const missing = 8 - head.length - tail.length;
+  if (halves.length === 1 ? missing !== 0 : missing < 1) return null;
+
+  const groups = [...head, ...Array(halves.length === 2 ? missing : 0).fill("0"), ...tail];
+  if (groups.some((group) => !/^[0-9a-f]{1,4}$/.test(group))) return null;
+  const value = groups.reduce((result, group) => (result << 16n) | BigInt(parseInt(group, 16)), 0n);
+
+  if (value >> 32n === 0xffffn) return { version: 4, value: value & 0xffffffffn };
+  return { version: 6, value };
+}
+
+function parseRange(range: string): { ip: ParsedIp; prefix: number } {
+  const [address, prefixText] = range.split("/");
+  const ip = parseIp(address);
+  if (!ip) throw new Error(`Invalid trusted proxy address "${range}"`);
+
+  const bits = ip.version === 4 ? 32 : 128;
+  // IPv4-mapped ranges are given in IPv6 prefix lengths
+  const offset = ip.version === 4 && address.includes(":") ? 96 : 0;
+  const prefix = prefixText === undefined ? bits : Number(prefixText) - offset;
+  if (!Number.isInteger(prefix) || prefix < 0 || prefix > bits) {
+    throw new Error(`Invalid trusted proxy range "${range}"`);
+  }
+  return { ip, prefix };
+}
+
+/**
+ * Compiles a trust setting into a function deciding per address and hop
+ * @throws If an address or range is invalid
+ */
+export function compileTrustProxy(trust: TrustProxy | undefined): (address: string, hop: number) => boolean {
+  if (typeof trust === "function") return trust;
+  if (trust === undefined || typeof trust === "boolean") return () => !!trust;
+  if (typeof trust === "number") return (_address, hop) => hop < trust;
+
+  const names = typeof trust === "string" ? trust.split(",") : trust;
+  const ranges = names
+    .map((name) => name.trim())
+    .filter(Boolean)
+    .flatMap((name) => NAMED_RANGES[name] ?? [name])
+    .map(parseRange);
+
+  return (address) => {
+    const ip = parseIp(address);
+    if (!ip) return false;
+    return ranges.some((range) => {
+      if (range.ip.version !== ip.version) return false;
+      const shift = BigInt((ip.version === 4 ? 32 : 128) - range.prefix);
+      return ip.value >> shift === range.ip.value >> shift;
+    });
+  };
+}
+
+function unquote(value: string): string {
+  return value.startsWith('"') && value.endsWith('"') ? value.slice(1, -1).replace(/\\(.)/g, "$1") : value;
+}
+
+// Removes brackets and ports: "[2001:db8::1]:4711" and "192.0.2.1:80" become bare addresses
+function stripPort(node: string): string {
+  const bracketed = /^\[([^\]]+)\](?::\d+)?$/.exec(node);
+  if (bracketed) return bracketed[1];
+  return /^[^:]+:\d+$/.test(node) ? node.slice(0, node.indexOf(":")) : node;
+}
+
+/**
+ * Parses a `Forwarded` header (RFC 7239) into its elements, the one added by the first proxy first
+ */
+export function parseForwarded(header: string): { for?: string; proto?: string; host?: string }[] {
+  return header.split(",").map((element) => {
+    const result: { for?: string; proto?: string; host?: string } = {};
+    for (const pair of element.split(";")) {
+      const separator = pair.indexOf("=");
+      if (separator === -1) continue;
+      const key = pair.slice(0, separator).trim().toLowerCase();
+      const value = unquote(pair.slice(separator + 1).trim());
+      if (key === "for") result.for = stripPort(value);
+      else if (key === "proto") result.proto = value.toLowerCase();
+      else if (key === "host") result.host = value;
+    }
+    return result;
+  });
+}
+
+function firstValue(header: string | null): string | undefined {
+  return header?.split(",")[0].trim() || undefined;
+}
+
+/**
+ * Determines the client IP, protocol and host of a request. Proxy headers are only
+ * read as far as the chain of proxies reporting them is trusted.
+ * @param req - The request
+ * @param peer - Address of the connection peer
+ * @param trust - Compiled trust function, see `compileTrustProxy()`
+ */
+export function resolveClientInfo(
+  req: Request,
+  peer: string | undefined,
+  trust: (address: string, hop: number) => boolean,
+): ClientInfo {
+  const url = new URL(req.url);
+  const forwardedHeader = req.headers.get("forwarded");
+  const elements = forwardedHeader
+    ? parseForwarded(forwardedHeader)
+    : (req.headers.get("x-forwarded-for") ?? "").split(",").map((node) => node.trim()).filter(Boolean)
+      .map((node) => ({ for: stripPort(node) } as { for?: string; proto?: string; host?: string }));
+
+  // Walk from the connection peer towards the client while the hops are trusted
+  const chain = [peer ?? "", ...elements.map((element) => element.for ?? "").reverse()];
+  let hop = 0;
+  while (hop < chain.length - 1 && trust(chain[hop], hop)) hop++;
+
+  let protocol = url.protocol.slice(0, -1);
+  let host = req.headers.get("host") ?? url.host;
+  if (peer !== undefined && trust(chain[0], 0)) {
+    if (forwardedHeader) {
+      // The element added by the proxy that received the request from the client
+      const element = elements[elements.length - Math.max(hop, 1)];
+      protocol = element?.proto ?? protocol;
+      host = element?.host ?? host;
+    } else {
+      protocol = firstValue(req.headers.get("x-forwarded-proto"))?.toLowerCase() ?? protocol;
+      host = firstValue(req.headers.get("x-forwarded-host")) ?? host;
+    }
+  }
+
+  return {
+    ip: chain[hop],
+    ips: chain.slice(1, hop + 1).reverse(),
+    protocol,
+    host,
+    secure: protocol === "https",
+  };
+}
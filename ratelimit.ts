@@ -0,0 +1,225 @@
+import { Req, Middleware, ResponseHelper } from "./types.ts";
+
+/**
+ * Storage for rate limit counters. Implement it to share limits between processes, e.g. with Redis or Deno KV.
+ */
+export interface RateLimitStore {
+  /**
+   * Reads the state of a key, applies `update` and keeps the result for `ttl` milliseconds.
+   * Shared stores must apply the update atomically, e.g. in a transaction or a compare-and-set loop.
+   * States are plain JSON objects.
+   */
+  update<T>(key: string, ttl: number, update: (state: T | undefined) => T): Promise<T>;
+  /** Forgets a key */
+  reset(key: string): Promise<void>;
+}
+
+/**
+ * In-memory rate limit store. Expired keys are dropped and the least recently used
+ * keys are evicted once `maxKeys` is reached, so memory stays bounded.
+ */
+export class MemoryRateLimitStore implements RateLimitStore {
+  private readonly entries = new Map<string, { state: unknown; expires: number }>();
+  private readonly maxKeys: number;
+
+  constructor(options: { maxKeys?: number } = {}) {
+    this.maxKeys = options.maxKeys ?? 10_000;
+  }
+
+  /** Number of keys currently stored */
+  get size(): number {
+    return this.entries.size;
+  }
+
+  update<T>(key: string, ttl: number, update: (state: T | undefined) => T): Promise<T> {
+    const now = Date.now();
+    const entry = this.entries.get(key);
+    const state = update(entry && entry.expires > now ? entry.state as T : undefined);
+
+    // Re-inserting moves the key to the end, so the first key is the least recently used
+    this.entries.delete(key);
+    this.entries.set(key, { state, expires: now + ttl });
+    for (const [oldest, { expires }] of this.entries) {
+      if (this.entries.size <= this.maxKeys && expires > now) break;
+      this.entries.delete(oldest);
+    }
+    return Promise.resolve(state);
+  }
+
+  reset(key: string): Promise<void> {
+    this.entries.delete(key);
+    return Promise.resolve();
+  }
+}
+
+/**
+ * The outcome of a rate limit check
+ */
+export interface RateLimitInfo {
+  /** Requests allowed per window */
+  limit: number;
+  /** Requests left in the current window */
+  remaining: number;
+  /** Seconds until the quota is fully restored */
+  reset: number;
+  /** Seconds until the next request is allowed, 0 when allowed now */
+  retryAfter: number;
+  /** The key the request was counted under */
+  key: string;
+}
+
+export type RateLimitAlgorithm = "fixed-window" | "sliding-window" | "token-bucket";
+
+/**
+ * Options for the rate limit middleware
+ */
+export interface RateLimitOptions {
+  /** Length of the window in milliseconds */
+  windowMs: number;
+  /** Requests allowed per window, or the bucket size for the token bucket */
+  max: number;
+  /**
+   * How requests are counted (default: "fixed-window").
+   * "sliding-window" weights the previous window to avoid bursts at window edges,
+   * "token-bucket" refills `max` tokens per window continuously.
+   */
+  algorithm?: RateLimitAlgorithm;
+  /** Where counters are kept (default: a new `MemoryRateLimitStore`) */
+  store?: RateLimitStore;
+  /** Identifies the client, e.g. by user or API key (default: `req.ip`) */
+  keyGenerator?: (req: Req) => string | Promise<string>;
+  /** Prefix of the store keys, to share a store between limiters (default: "") */
+  prefix?: string;
+  /** Keys that are never limited, e.g. trusted IP addresses */
+  allowList?: string[];
+  /** Requests that are not counted */
+  skip?: (req: Req) => boolean | Promise<boolean>;
+  /** Creates the response once the limit is exceeded (default: 429 with a JSON error) */
+  handler?: (req: Req, info: RateLimitInfo) => Response | Promise<Response>;
+  /** Send `RateLimit-*` headers (default: true). `Retry-After` is always sent with limited responses */
+  headers?: boolean;
+}
+
+type Outcome = { allowed: boolean; remaining: number; reset: number; retryAfter: number };
+
+type FixedWindow = { count: number; start: number };
+type SlidingWindow = { current: number; previous: number; start: number };
+type TokenBucket = { tokens: number; updated: number };
+
+async function consume(
+  store: RateLimitStore,
+  key: string,
+  algorithm: RateLimitAlgorithm,
+  windowMs: number,
+  max: number,
+): Promise<Outcome> {
+  const now = Date.now();
+  let outcome!: Outcome;
+
+  if (algorithm === "token-bucket") {
+    const refillPerMs = max / windowMs;
+    await store.update<TokenBucket>(key, windowMs, (state) => {
+      const tokens = Math.min(max, (state?.tokens ?? max) + (now - (state?.updated ?? now)) * refillPerMs);
+      const allowed = tokens >= 1;
+      const left = allowed ? tokens - 1 : tokens;
+      outcome = {
+        allowed,
+        remaining: Math.floor(left),
+        reset: (max - left) / refillPerMs,
+        retryAfter: allowed ? 0 : (1 - left) / refillPerMs,
+      };
+      return { tokens: left, updated: now };
+    });
+  } else if (algorithm === "sliding-window") {
+    await store.update<SlidingWindow>(key, windowMs * 2, (state) => {
+      const start = now - (now % windowMs);
+      let { current, previous } = state ?? { current: 0, previous: 0 };
+      if (!state || state.start < start) {
+        // Roll over, the previous window only counts when it directly precedes this one
+        previous = state?.start === start - windowMs ? state.current : 0;
+        current = 0;
+      }
+
+      const elapsed = (now - start) / windowMs;
+      const estimate = previous * (1 - elapsed) + current;
+      const allowed = estimate + 1 <= max;
+      if (allowed) current++;
+
+      // Without a new request the estimate drops as the previous window fades out
+      const untilBelow = previous > 0 && current < max
+        ? Math.max(windowMs * (1 - (max - 1 - current) / previous) - (now - start), 0)
+        : start + windowMs - now;
+      outcome = {
+        allowed,
+        remaining: Math.max(Math.floor(max - (estimate + (allowed ? 1 : 0))), 0),
+        reset: start + windowMs - now,
+        retryAfter: allowed ? 0 : untilBelow,
+      };
+      return { current, previous, start };
+    });
+  } else {
+    await store.update<FixedWindow>(key, windowMs, (state) => {
+      const window = state && state.start + windowMs > now ? state : { count: 0, start: now };
+      const allowed = window.count < max;
+      if (allowed) window.count++;
+      outcome = {
+        allowed,
+        remaining: max - window.count,
+        reset: window.start + windowMs - now,
+        retryAfter: allowed ? 0 : window.start + windowMs - now,
+      };
+      return window;
+    });
+  }
+  return outcome;
+}
+
+/**
+ * Middleware to rate limit requests. Use it globally with `use()` or per route in `RouteConfig.middleware`.
+ * @param options - The rate limit options
+ * @returns The middleware function
+ */
+export function rateLimit(options: RateLimitOptions): Middleware {
+  const {
+    windowMs,
+    max,
+    algorithm = "fixed-window",
+    store = new MemoryRateLimitStore(),
+    keyGenerator = (req: Req) => req.ip || "unknown",
+    prefix = "",
+    skip,
+    handler = () => ResponseHelper.problem(429, "Too many requests"),
+    headers: sendHeaders = true,
+  } = options;
+  const allowList = new Set(options.allowList);
+
+  return async function rateLimit(req: Req, next) {
+    if (await skip?.(req)) return next();
+    const key = await keyGenerator(req);
+    if (allowList.has(key)) return next();
+
+    const outcome = await consume(store, prefix + key, algorithm, windowMs, max);
+    const info: RateLimitInfo = {
+      limit: max,
+      remaining: outcome.remaining,
+      reset: Math.ceil(outcome.reset / 1000),
+      retryAfter: Math.ceil(outcome.retryAfter / 1000),
+      key,
+    };
+
+    const response = outcome.allowed ? await next() : await handler(req, info);
+    if (!sendHeaders && outcome.allowed) return response;
+
+    return ResponseHelper.withHeaders(response, (headers) => {
+      if (sendHeaders) {
+        headers.set("RateLimit-Policy", `${max};w=${Math.ceil(windowMs / 1000)}`);
+        headers.set("RateLimit-Limit", String(info.limit));
+        headers.set("RateLimit-Remaining", String(info.remaining));
+        headers.set("RateLimit-Reset", String(info.reset));
+      }
+      if (!outcome.allowed) {
+        headers.set("Retry-After", String(info.retryAfter));
+      }
+    });
+  };
+}
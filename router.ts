@@ -0,0 +1,329 @@
+/**
+ * A single node of the routing tree. Each node represents one path segment.
+ */
+interface Node<T> {
+  /** Children matched by an exact segment */
+  statics: Map<string, Node<T>>;
+  /** Children matched by a `:param` segment, keyed by their constraint source ("" when unconstrained) */
+  params: Map<string, { constraint: RegExp | null; node: Node<T> }>;
+  /** Child matching the rest of the path (`*` or `*name`) */
+  wildcard: Node<T> | null;
+  /** Routes terminating at this node, keyed by HTTP method */
+  routes: Map<string, RouteEntry<T>>;
+}
+
+interface RouteEntry<T> {
+  pattern: string;
+  paramNames: string[];
+  value: T;
+}
+
+/**
+ * The result of a successful route lookup
+ */
+export interface RouteMatch<T> {
+  /** The pattern the route was registered with */
+  pattern: string;
+  /** The value stored for the route */
+  value: T;
+  /** Decoded path parameters */
+  params: Record<string, string>;
+}
+
+/**
+ * A registered route, as listed by `Router.routes()`
+ */
+export interface RouteListing<T> {
+  method: string;
+  /** The pattern the route was registered with */
+  pattern: string;
+  value: T;
+}
+
+type Segment =
+  | { type: "static"; value: string }
+  | { type: "param"; name: string; constraint: string; optional: boolean }
+  | { type: "wildcard"; name: string };
+
+function createNode<T>(): Node<T> {
+  return { statics: new Map(), params: new Map(), wildcard: null, routes: new Map() };
+}
+
+function splitPath(path: string): string[] {
+  return path.split("/").slice(1);
+}
+
+function decode(segment: string): string {
+  try {
+    return decodeURIComponent(segment);
+  } catch {
+    return segment;
+  }
+}
+
+/**
+ * Parses a route pattern into typed segments.
+ * Supports static segments, `:param`, optional `:param?`, constrained `:param(regex)`
+ * and tail wildcards (`*` or `*name`).
+ */
+function parsePattern(path: string): Segment[] {
+  if (path === "*") path = "/*";
+  if (!path.startsWith("/")) path = "/" + path;
+
+  const segments = splitPath(path);
+  return segments.map((segment, index) => {
+    if (segment.startsWith(":")) {
+      const match = /^:(\w+)(?:\((.+)\))?(\?)?$/.exec(segment);
+      if (!match) {
+        throw new Error(`Invalid route parameter "${segment}" in "${path}"`);
+      }
+      return { type: "param", name: match[1], constraint: match[2] ?? "", optional: !!match[3] };
+    }
+    if (segment.startsWith("*")) {
+      if (index !== segments.length - 1) {
+        throw new Error(`Wildcard must be the last segment in "${path}"`);
+      }
+      return { type: "wildcard", name: segment.slice(1) || "*" };
+    }
+    return { type: "static", value: segment };
+  });
+}
+
+/**
+ * Expands optional params into every concrete variant of the pattern.
+ * For example `/user/:id?` becomes `/user` and `/user/:id`.
+ */
+function expandOptional(segments: Segment[]): Segment[][] {
+  let variants: Segment[][] = [[]];
+  for (const segment of segments) {
+    if (segment.type === "param" && segment.optional) {
+      variants = variants.flatMap((variant) => [variant, [...variant, segment]]);
+    } else {
+      variants = variants.map((variant) => [...variant, segment]);
+    }
+  }
+  return variants;
+}
+
+/**
+ * Lists the parameter names of a pattern, in order
+ */
+export function paramNames(pattern: string): string[] {
+  return parsePattern(pattern).flatMap((segment) => segment.type === "static" ? [] : [segment.name]);
+}
+
+/**
+ * Renders every concrete variant of a pattern as a `{param}` path template, e.g.
+ * `/users/:id(\\d+)?` becomes `/users` and `/users/{id}`
+ */
+export function pathTemplates(pattern: string): string[] {
+  return expandOptional(parsePattern(pattern)).map((segments) =>
+    "/" + segments.map((segment) => segment.type === "static" ? segment.value : `{${segment.name}}`).join("/")
+  );
+}
+
+/**
+ * Matches the leading segments of a pathname against a mount prefix such as `/users/:uid`.
+ * Returns the captured params, the matched part of the path (empty for the root prefix) and the
+ * remaining path, or null when the prefix does not match.
+ */
+export function matchPrefix(
+  prefix: string,
+  pathname: string,
+): { params: Record<string, string>; base: string; rest: string } | null {
+  const prefixSegments = splitPath(prefix.replace(/\/+$/, ""));
+  const segments = splitPath(pathname);
+  if (segments.length < prefixSegments.length) return null;
+
+  const params: Record<string, string> = {};
+  for (let index = 0; index < prefixSegments.length; index++) {
+    const expected = prefixSegments[index];
+    const segment = segments[index];
+    if (expected.startsWith(":")) {
+      if (segment === "") return null;
+      params[expected.slice(1)] = decode(segment);
+    } else if (expected !== segment) {
+      return null;
+    }
+  }
+
+  return {
+    params,
+    base: prefixSegments.length ? "/" + segments.slice(0, prefixSegments.length).join("/") : "",
+    rest: "/" + segments.slice(prefixSegments.length).join("/"),
+  };
+}
+
+/**
+ * A radix (prefix) tree router.
+ *
+ * Lookups walk the tree one path segment at a time, so their cost depends on the
+ * path depth rather than the number of registered routes. At every level static
+ * segments are preferred over `:param` segments, which are preferred over `*` wildcards,
+ * regardless of registration order. Constrained params are tried before plain ones.
+ */
+export class Router<T> {
+  private readonly root: Node<T> = createNode();
+  private readonly registered: RouteListing<T>[] = [];
+
+  /**
+   * Registers a route.
+   * @throws If a route with the same shape is already registered for the method
+   */
+  add(method: string, path: string, value: T): void {
+    // Check every variant of optional params first, so a conflict leaves no part of the route registered
+    const variants = expandOptional(parsePattern(path));
+    const shapes = new Set<string>();
+    for (const segments of variants) {
+      const existing = this.walk(segments, false)?.routes.get(method);
+      const shape = segments
+        .map((segment) => segment.type === "static" ? segment.value : segment.type === "param" ? `:${segment.constraint}` : "*")
+        .join("/");
+      if (existing || shapes.has(shape)) {
+        throw new Error(
+          `Route conflict: ${method} "${path}" conflicts with "${existing?.pattern ?? path}"`,
+        );
+      }
+      shapes.add(shape);
+    }
+
+    for (const segments of variants) {
+      const node = this.walk(segments, true)!;
+      const paramNames = segments.filter((segment) => segment.type !== "static").map((segment) => segment.name);
+      node.routes.set(method, { pattern: path, paramNames, value });
+    }
+    this.registered.push({ method, pattern: path, value });
+  }
+
+  // Follows the segments of a pattern down the tree, creating the missing nodes when asked to
+  private walk(segments: Segment[], create: boolean): Node<T> | null {
+    let node = this.root;
+    for (const segment of segments) {
+      if (segment.type === "static") {
+        let child = node.statics.get(segment.value);
+        if (!child) {
+          if (!create) return null;
+          child = createNode();
+          node.statics.set(segment.value, child);
+        }
+        node = child;
+      } else if (segment.type === "param") {
+        let child = node.params.get(segment.constraint);
+        if (!child) {
+          if (!create) return null;
+          const constraint = segment.constraint ? new RegExp(`^(?:${segment.constraint})$`) : null;
+          child = { constraint, node: createNode() };
+          node.params.set(segment.constraint, child);
+          // Keep constrained params ahead of the unconstrained one
+          node.params = new Map(
+            [...node.params].sort(([a], [b]) => Number(a === "") - Number(b === "")),
+          );
+        }
+        node = child.node;
+      } else {
+        if (!node.wildcard) {
+          if (!create) return null;
+          node.wildcard = createNode();
+        }
+        node = node.wildcard;
+      }
+    }
+    return node;
+  }
+
+  /**
+   * Lists the registered routes in registration order.
+   */
+  routes(): RouteListing<T>[] {
+    return [...this.registered];
+  }
+
+  /**
+   * Finds the best matching route for the method and pathname.
+   */
+  find(method: string, pathname: string): RouteMatch<T> | null {
+    const captures: string[] = [];
+    const entry = this.match(this.root, splitPath(pathname), 0, method, captures);
+    if (!entry) return null;
+
+    const params: Record<string, string> = {};
+    entry.paramNames.forEach((name, index) => {
+      params[name] = captures[index];
+    });
+    return { pattern: entry.pattern, value: entry.value, params };
+  }
+
+  /**
+   * Lists every method that has a route matching the pathname.
+   */
+  allowedMethods(pathname: string): string[] {
+    const methods = new Set<string>();
+    this.collect(this.root, splitPath(pathname), 0, methods);
+    return [...methods];
+  }
+
+  private collect(node: Node<T>, segments: string[], index: number, methods: Set<string>): void {
+    if (index === segments.length) {
+      node.routes.forEach((_, method) => methods.add(method));
+    } else {
+      const segment = segments[index];
+
+      const staticChild = node.statics.get(segment);
+      if (staticChild) {
+        this.collect(staticChild, segments, index + 1, methods);
+      }
+
+      if (segment !== "") {
+        const value = decode(segment);
+        for (const { constraint, node: child } of node.params.values()) {
+          if (constraint && !constraint.test(value)) continue;
+          this.collect(child, segments, index + 1, methods);
+        }
+      }
+    }
+
+    node.wildcard?.routes.forEach((_, method) => methods.add(method));
+  }
+
+  private match(
+    node: Node<T>,
+    segments: string[],
+    index: number,
+    method: string,
+    captures: string[],
+  ): RouteEntry<T> | null {
+    if (index === segments.length) {
+      const entry = node.routes.get(method);
+      if (entry) return entry;
+    } else {
+      const segment = segments[index];
+
+      const staticChild = node.statics.get(segment);
+      if (staticChild) {
+        const entry = this.match(staticChild, segments, index + 1, method, captures);
+        if (entry) return entry;
+      }
+
+      if (segment !== "") {
+        const value = decode(segment);
+        for (const { constraint, node: child } of node.params.values()) {
+          if (constraint && !constraint.test(value)) continue;
+          captures.push(value);
+          const entry = this.match(child, segments, index + 1, method, captures);
+          if (entry) return entry;
+          captures.pop();
+        }
+      }
+    }
+
+    if (node.wildcard) {
+      const entry = node.wildcard.routes.get(method);
+      if (entry) {
+        captures.push(decode(segments.slice(index).join("/")));
+        return entry;
+      }
+    }
+
+    return null;
+  }
+}
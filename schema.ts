@@ -0,0 +1,222 @@
+/**
+ * A single failed check, identified by the path of the offending value
+ */
+export interface ValidationIssue {
+  /** Path to the invalid value, e.g. `["items", 0, "name"]` */
+  path: (string | number)[];
+  /** Human readable description of the problem */
+  message: string;
+}
+
+/**
+ * The outcome of validating a value against a schema
+ */
+export type ValidationResult<T> =
+  | { success: true; value: T }
+  | { success: false; issues: ValidationIssue[] };
+
+/**
+ * A schema validates an unknown value and returns the (possibly coerced) typed value.
+ *
+ * This is also the adapter interface for external validation libraries: wrap the library's
+ * schema in an object with a `validate` method and it can be used anywhere a built-in schema can.
+ *
+ * @example
+ * ```typescript
+ * const fromZod = <T>(schema: z.ZodType<T>): Schema<T> => ({
+ *   validate(value) {
+ *     const result = schema.safeParse(value);
+ *     return result.success
+ *       ? { success: true, value: result.data }
+ *       : { success: false, issues: result.error.issues.map(({ path, message }) => ({ path, message })) };
+ *   },
+ *   jsonSchema: z.toJSONSchema(schema),
+ * });
+ * ```
+ */
+export interface Schema<T = unknown> {
+  /** Marks the value as optional when used inside an object schema */
+  readonly optional?: boolean;
+  /** JSON Schema of the value, used by the OpenAPI generator */
+  readonly jsonSchema?: Record<string, unknown>;
+  validate(value: unknown): ValidationResult<T>;
+}
+
+/** The type produced by a schema */
+export type Infer<S> = S extends Schema<infer T> ? T : never;
+
+type Shape = Record<string, Schema>;
+
+type OptionalKeys<S extends Shape> = {
+  [K in keyof S]: S[K] extends { optional: true } ? K : never;
+}[keyof S];
+
+type Simplify<T> = { [K in keyof T]: T[K] } & unknown;
+
+type ObjectOutput<S extends Shape> = Simplify<
+  & { [K in Exclude<keyof S, OptionalKeys<S>>]: Infer<S[K]> }
+  & { [K in OptionalKeys<S>]?: Infer<S[K]> }
+>;
+
+function ok<T>(value: T): ValidationResult<T> {
+  return { success: true, value };
+}
+
+function fail<T>(message: string): ValidationResult<T> {
+  return { success: false, issues: [{ path: [], message }] };
+}
+
+// Drops undefined keywords so that JSON Schemas only contain the constraints in use
+function jsonSchema(keywords: Record<string, unknown>): Record<string, unknown> {
+  return Object.fromEntries(Object.entries(keywords).filter(([, value]) => value !== undefined));
+}
+
+function describe(value: unknown): string {
+  if (value === null) return "null";
+  if (Array.isArray(value)) return "array";
+  return typeof value;
+}
+
+/**
+ * Built-in lightweight validators.
+ *
+ * Numbers and booleans are coerced from strings, so the same schema works for
+ * route params, query strings, headers, form bodies and JSON bodies.
+ */
+export const v = {
+  /** Validates a string */
+  string: (options: { min?: number; max?: number; pattern?: RegExp } = {}): Schema<string> => ({
+    jsonSchema: jsonSchema({
+      type: "string",
+      minLength: options.min,
+      maxLength: options.max,
+      pattern: options.pattern?.source,
+    }),
+    validate(value) {
+      if (typeof value !== "string") return fail(`Expected string, received ${describe(value)}`);
+      if (options.min !== undefined && value.length < options.min) {
+        return fail(`Must be at least ${options.min} characters`);
+      }
+      if (options.max !== undefined && value.length > options.max) {
+        return fail(`Must be at most ${options.max} characters`);
+      }
+      if (options.pattern && !options.pattern.test(value)) {
+        return fail(`Must match ${options.pattern}`);
+      }
+      return ok(value);
+    },
+  }),
+
+  /** Validates a number, coercing numeric strings */
+  number: (options: { min?: number; max?: number; integer?: boolean } = {}): Schema<number> => ({
+    jsonSchema: jsonSchema({
+      type: options.integer ? "integer" : "number",
+      minimum: options.min,
+      maximum: options.max,
+    }),
+    validate(value) {
+      const number = typeof value === "string" && value.trim() !== "" ? Number(value) : value;
+      if (typeof number !== "number" || Number.isNaN(number)) {
+        return fail(`Expected number, received ${describe(value)}`);
+      }
+      if (options.integer && !Number.isInteger(number)) return fail("Expected integer");
+      if (options.min !== undefined && number < options.min) return fail(`Must be at least ${options.min}`);
+      if (options.max !== undefined && number > options.max) return fail(`Must be at most ${options.max}`);
+      return ok(number);
+    },
+  }),
+
+  /** Validates a boolean, coercing "true"/"false"/"1"/"0" */
+  boolean: (): Schema<boolean> => ({
+    jsonSchema: { type: "boolean" },
+    validate(value) {
+      if (typeof value === "boolean") return ok(value);
+      if (value === "true" || value === "1") return ok(true);
+      if (value === "false" || value === "0") return ok(false);
+      return fail(`Expected boolean, received ${describe(value)}`);
+    },
+  }),
+
+  /** Validates that the value is one of the given literals */
+  enum: <const T extends readonly (string | number | boolean)[]>(values: T): Schema<T[number]> => ({
+    jsonSchema: { enum: [...values] },
+    validate(value) {
+      const match = values.find((allowed) => allowed === value || String(allowed) === value);
+      if (match === undefined) {
+        return fail(`Expected one of ${values.map((allowed) => JSON.stringify(allowed)).join(", ")}`);
+      }
+      return ok(match);
+    },
+  }),
+
+  /** Validates an array whose items all match the item schema */
+  array: <T>(item: Schema<T>, options: { min?: number; max?: number } = {}): Schema<T[]> => ({
+    jsonSchema: jsonSchema({
+      type: "array",
+      items: item.jsonSchema ?? {},
+      minItems: options.min,
+      maxItems: options.max,
+    }),
+    validate(value) {
+      if (!Array.isArray(value)) return fail(`Expected array, received ${describe(value)}`);
+      if (options.min !== undefined && value.length < options.min) {
+        return fail(`Must contain at least ${options.min} items`);
+      }
+      if (options.max !== undefined && value.length > options.max) {
+        return fail(`Must contain at most ${options.max} items`);
+      }
+
+      const output: T[] = [];
+      const issues: ValidationIssue[] = [];
+      value.forEach((entry, index) => {
+        const result = item.validate(entry);
+        if (result.success) {
+          output.push(result.value);
+        } else {
+          issues.push(...result.issues.map((issue) => ({ ...issue, path: [index, ...issue.path] })));
+        }
+      });
+      return issues.length ? { success: false, issues } : ok(output);
+    },
+  }),
+
+  /** Validates an object against a shape. Unknown keys are dropped */
+  object: <S extends Shape>(shape: S): Schema<ObjectOutput<S>> => ({
+    jsonSchema: {
+      type: "object",
+      properties: Object.fromEntries(Object.entries(shape).map(([key, schema]) => [key, schema.jsonSchema ?? {}])),
+      required: Object.keys(shape).filter((key) => !shape[key].optional),
+    },
+    validate(value) {
+      if (typeof value !== "object" || value === null || Array.isArray(value)) {
+        return fail(`Expected object, received ${describe(value)}`);
+      }
+
+      const input = value as Record<string, unknown>;
+      const output: Record<string, unknown> = {};
+      const issues: ValidationIssue[] = [];
+      for (const [key, schema] of Object.entries(shape)) {
+        if (input[key] === undefined) {
+          if (!schema.optional) issues.push({ path: [key], message: "Required" });
+          continue;
+        }
+        const result = schema.validate(input[key]);
+        if (result.success) {
+          output[key] = result.value;
+        } else {
+          issues.push(...result.issues.map((issue) => ({ ...issue, path: [key, ...issue.path] })));
+        }
+      }
+      return issues.length ? { success: false, issues } : ok(output as ObjectOutput<S>);
+    },
+  }),
+
+  /** Allows the value to be missing */
+  optional: <T>(schema: Schema<T>): Schema<T | undefined> & { optional: true } => ({
+    optional: true,
+    jsonSchema: schema.jsonSchema,
+    validate(value) {
+      return value === undefined ? ok(undefined) : schema.validate(value);
+    },
+  }),
+};
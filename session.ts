@@ -0,0 +1,189 @@
+import { Req, Middleware, ResponseHelper } from "./types.ts";
+import { CookieOptions, CookieSecrets, deleteCookie, parseCookies, randomToken, setCookie, signValue, unsignValue } from "./cookie.ts";
+
+/** Data stored in a session */
+export type SessionData = Record<string, unknown>;
+
+/**
+ * Storage backend for sessions. Implement it to keep sessions in Redis, Deno KV or a database.
+ */
+export interface SessionStore {
+  /** Loads a session, or undefined when it does not exist or has expired */
+  get(id: string): Promise<SessionData | undefined>;
+  /** Saves a session for `ttl` milliseconds */
+  set(id: string, data: SessionData, ttl: number): Promise<void>;
+  /** Removes a session */
+  destroy(id: string): Promise<void>;
+  /** Extends the lifetime of a session without rewriting it */
+  touch?(id: string, ttl: number): Promise<void>;
+}
+
+/**
+ * In-memory session store. Sessions are lost on restart and not shared between processes.
+ */
+export class MemoryStore implements SessionStore {
+  private readonly sessions = new Map<string, { data: string; expires: number }>();
+  private writes = 0;
+
+  get(id: string): Promise<SessionData | undefined> {
+    const entry = this.sessions.get(id);
+    if (!entry || entry.expires <= Date.now()) {
+      this.sessions.delete(id);
+      return Promise.resolve(undefined);
+    }
+    return Promise.resolve(JSON.parse(entry.data));
+  }
+
+  set(id: string, data: SessionData, ttl: number): Promise<void> {
+    // Drop expired sessions now and then so abandoned ones do not pile up
+    if (++this.writes % 100 === 0) this.prune();
+    this.sessions.set(id, { data: JSON.stringify(data), expires: Date.now() + ttl });
+    return Promise.resolve();
+  }
+
+  destroy(id: string): Promise<void> {
+    this.sessions.delete(id);
+    return Promise.resolve();
+  }
+
+  touch(id: string, ttl: number): Promise<void> {
+    const entry = this.sessions.get(id);
+    if (entry) entry.expires = Date.now() + ttl;
+    return Promise.resolve();
+  }
+
+  private prune() {
+    const now = Date.now();
+    for (const [id, entry] of this.sessions) {
+      if (entry.expires <= now) this.sessions.delete(id);
+    }
+  }
+}
+
+/**
+ * A session attached to a request by the `session()` middleware
+ */
+export class Session {
+  private values: SessionData;
+  private dirty = false;
+  /** Whether the session did not exist before this request */
+  readonly isNew: boolean;
+  /** The session id of the request, before any regeneration */
+  readonly previousId: string | null;
+  /** Whether `destroy()` was called */
+  destroyed = false;
+
+  constructor(public id: string, data: SessionData | undefined) {
+    this.values = data ?? {};
+    this.isNew = data === undefined;
+    this.previousId = data === undefined ? null : id;
+  }
+
+  /** Whether the session data changed during this request */
+  get changed(): boolean {
+    return this.dirty;
+  }
+
+  /** All session data */
+  get data(): Readonly<SessionData> {
+    return this.values;
+  }
+
+  get<T = unknown>(key: string): T | undefined {
+    return this.values[key] as T | undefined;
+  }
+
+  set(key: string, value: unknown): void {
+    this.values[key] = value;
+    this.dirty = true;
+  }
+
+  delete(key: string): void {
+    if (key in this.values) {
+      delete this.values[key];
+      this.dirty = true;
+    }
+  }
+
+  /** Removes all data but keeps the session */
+  clear(): void {
+    this.values = {};
+    this.dirty = true;
+  }
+
+  /**
+   * Moves the data to a new session id and discards the old one.
+   * Call it after login to prevent session fixation.
+   */
+  regenerate(): void {
+    this.id = randomToken();
+    this.dirty = true;
+  }
+
+  /** Removes the session and its cookie */
+  destroy(): void {
+    this.destroyed = true;
+  }
+}
+
+/**
+ * Options for the session middleware
+ */
+export interface SessionOptions {
+  /** Secrets signing the session id cookie. The first one signs, all of them verify */
+  secret: CookieSecrets;
+  /** Where sessions are kept (default: a new `MemoryStore`) */
+  store?: SessionStore;
+  /** Name of the session cookie (default: "sid") */
+  cookieName?: string;
+  /** Session cookie attributes (default: httpOnly, SameSite=Lax) */
+  cookie?: Omit<CookieOptions, "expires" | "maxAge">;
+  /** Lifetime of a session in milliseconds (default: 24 hours) */
+  ttl?: number;
+  /** Extend the lifetime on every request, not only when the session changes (default: false) */
+  rolling?: boolean;
+}
+
+/**
+ * Middleware to load and save sessions, available as `req.session`.
+ * Sessions are only saved, and their cookie only sent, when they changed or when `rolling` is set.
+ * @param options - The session options
+ * @returns The middleware function
+ */
+export function session(options: SessionOptions): Middleware {
+  const {
+    secret,
+    store = new MemoryStore(),
+    cookieName = "sid",
+    ttl = 24 * 60 * 60 * 1000,
+    rolling = false,
+  } = options;
+  const cookieOptions: CookieOptions = { httpOnly: true, sameSite: "Lax", ...options.cookie };
+
+  return async function session(req: Req, next) {
+    const signedId = parseCookies(req.headers.get("cookie"))[cookieName];
+    const id = signedId ? await unsignValue(signedId, secret) : null;
+    const data = id ? await store.get(id) : undefined;
+    const current = new Session(data ? id! : randomToken(), data);
+    req.session = current;
+
+    const response = await next();
+    if (!current.destroyed && !current.changed && !(rolling && !current.isNew)) return response;
+
+    return ResponseHelper.withHeaders(response, async (headers) => {
+      if (current.destroyed) {
+        if (current.previousId) await store.destroy(current.previousId);
+        deleteCookie(headers, cookieName, cookieOptions);
+      } else if (current.changed) {
+        if (current.previousId && current.previousId !== current.id) {
+          await store.destroy(current.previousId);
+        }
+        await store.set(current.id, current.data, ttl);
+        setCookie(headers, cookieName, await signValue(current.id, secret), { ...cookieOptions, maxAge: ttl / 1000 });
+      } else {
+        await (store.touch ? store.touch(current.id, ttl) : store.set(current.id, current.data, ttl));
+        setCookie(headers, cookieName, await signValue(current.id, secret), { ...cookieOptions, maxAge: ttl / 1000 });
+      }
+    });
+  };
+}
@@ -0,0 +1,221 @@
+/**
+ * A Server-Sent Event
+ */
+export interface SSEEvent {
+  /** Event name, dispatched to `addEventListener(event)` on the client (default: "message") */
+  event?: string;
+  /** Payload. Strings are sent as is, other values as JSON */
+  data?: unknown;
+  /** Event id, sent back by reconnecting clients as `Last-Event-ID` */
+  id?: string | number;
+  /** Reconnection delay for the client in milliseconds */
+  retry?: number;
+}
+
+/**
+ * Options of an SSE response
+ */
+export interface SSEOptions {
+  /** The request, used for `Last-Event-ID` and to detect disconnects */
+  request?: Request;
+  /** Milliseconds between comment heartbeats that keep proxies from closing the connection, 0 disables them (default: 15000) */
+  heartbeat?: number;
+  /** Reconnection delay sent to the client when the stream opens */
+  retry?: number;
+  /** Channel to subscribe the stream to. The stream then stays open until the client disconnects or `close()` is called */
+  channel?: SSEChannel;
+  /** Additional response headers */
+  headers?: Record<string, string>;
+}
+
+export type SSEHandler = (stream: SSEStream) => void | Promise<void>;
+
+const encoder = new TextEncoder();
+
+function assertSingleLine(field: string, value: string) {
+  if (/[\r\n]/.test(value)) throw new Error(`SSE ${field} must not contain line breaks`);
+}
+
+/**
+ * Encodes an event in the `text/event-stream` format
+ */
+export function encodeSSEEvent(event: SSEEvent): string {
+  let message = "";
+  if (event.event !== undefined) {
+    assertSingleLine("event", event.event);
+    message += `event: ${event.event}\n`;
+  }
+  if (event.id !== undefined) {
+    const id = String(event.id);
+    assertSingleLine("id", id);
+    message += `id: ${id}\n`;
+  }
+  if (event.retry !== undefined) message += `retry: ${Math.floor(event.retry)}\n`;
+  if (event.data !== undefined) {
+    const data = typeof event.data === "string" ? event.data : JSON.stringify(event.data);
+    for (const line of data.split(/\r\n|\r|\n/)) message += `data: ${line}\n`;
+  }
+  return `${message}\n`;
+}
+
+/**
+ * An open Server-Sent Events stream
+ */
+export class SSEStream {
+  private readonly abortController = new AbortController();
+
+  constructor(
+    private readonly controller: ReadableStreamDefaultController<Uint8Array>,
+    /** The `Last-Event-ID` sent by a reconnecting client, or null */
+    readonly lastEventId: string | null,
+  ) {}
+
+  /** Aborted once the client disconnected or the stream was closed */
+  get signal(): AbortSignal {
+    return this.abortController.signal;
+  }
+
+  /** Whether the stream is closed */
+  get closed(): boolean {
+    return this.signal.aborted;
+  }
+
+  /**
+   * Sends an event
+   * @returns Whether the event was sent, false once the stream is closed
+   */
+  send(event: SSEEvent): boolean {
+    return this.write(encodeSSEEvent(event));
+  }
+
+  /** Sends a comment, ignored by clients */
+  comment(text = ""): boolean {
+    return this.write(text.split(/\r\n|\r|\n/).map((line) => `: ${line}\n`).join("") + "\n");
+  }
+
+  /** Ends the stream */
+  close(): void {
+    if (this.closed) return;
+    this.abortController.abort();
+    try {
+      this.controller.close();
+    } catch {
+      // Already cancelled by the client
+    }
+  }
+
+  private write(chunk: string): boolean {
+    if (this.closed) return false;
+    try {
+      this.controller.enqueue(encoder.encode(chunk));
+      return true;
+    } catch {
+      this.close();
+      return false;
+    }
+  }
+}
+
+/**
+ * Broadcasts events to many SSE streams and keeps a bounded history,
+ * replayed to clients that reconnect with a `Last-Event-ID`.
+ */
+export class SSEChannel {
+  private readonly history: (SSEEvent & { id: string })[] = [];
+  private readonly streams = new Set<SSEStream>();
+  private nextId = 1;
+  private readonly historySize: number;
+
+  constructor(options: { historySize?: number } = {}) {
+    this.historySize = options.historySize ?? 100;
+  }
+
+  /** Number of subscribed streams */
+  get size(): number {
+    return this.streams.size;
+  }
+
+  /**
+   * Sends an event to every subscribed stream. Events without an id get a sequential one
+   * @returns The number of streams the event was sent to
+   */
+  send(event: SSEEvent): number {
+    const stored = { ...event, id: String(event.id ?? this.nextId++) };
+    this.history.push(stored);
+    if (this.history.length > this.historySize) this.history.shift();
+
+    let sent = 0;
+    for (const stream of this.streams) {
+      if (stream.send(stored)) sent++;
+    }
+    return sent;
+  }
+
+  /**
+   * Subscribes a stream, replaying the events it missed
+   * @returns A function that unsubscribes the stream
+   */
+  subscribe(stream: SSEStream): () => void {
+    if (stream.lastEventId !== null) {
+      // A client whose last event left the history gets all of it
+      const last = this.history.findIndex((event) => event.id === stream.lastEventId);
+      for (const event of this.history.slice(last + 1)) stream.send(event);
+    }
+
+    const unsubscribe = () => this.streams.delete(stream);
+    this.streams.add(stream);
+    stream.signal.addEventListener("abort", unsubscribe, { once: true });
+    return unsubscribe;
+  }
+
+  /** Creates an SSE response subscribed to this channel */
+  connect(request: Request, options: Omit<SSEOptions, "request" | "channel"> = {}): Response {
+    return createSSEResponse(undefined, { ...options, request, channel: this });
+  }
+}
+
+/**
+ * Creates a `text/event-stream` response. The handler runs once the stream is open, and
+ * the stream closes when it returns, unless the stream is subscribed to a channel.
+ */
+export function createSSEResponse(handler: SSEHandler | undefined, options: SSEOptions = {}): Response {
+  const { request, heartbeat = 15000, retry, channel } = options;
+  let stream: SSEStream;
+
+  const body = new ReadableStream<Uint8Array>({
+    start(controller) {
+      stream = new SSEStream(controller, request?.headers.get("last-event-id") ?? null);
+
+      if (heartbeat > 0) {
+        const timer = setInterval(() => stream.comment("heartbeat"), heartbeat);
+        stream.signal.addEventListener("abort", () => clearInterval(timer), { once: true });
+      }
+      if (request) {
+        if (request.signal.aborted) return stream.close();
+        const onAbort = () => stream.close();
+        request.signal.addEventListener("abort", onAbort, { once: true });
+        stream.signal.addEventListener("abort", () => request.signal.removeEventListener("abort", onAbort), { once: true });
+      }
+
+      if (retry !== undefined) stream.send({ retry });
+      channel?.subscribe(stream);
+
+      Promise.resolve()
+        .then(() => handler?.(stream))
+        .catch((error) => console.error("SSE handler failed:", error))
+        .finally(() => {
+          if (!channel) stream.close();
+        });
+    },
+    cancel() {
+      stream.close();
+    },
+  });
+
+  const headers = new Headers(options.headers);
+  headers.set("Content-Type", "text/event-stream; charset=utf-8");
+  headers.set("Cache-Control", "no-cache");
+  // Keep reverse proxies such as nginx from buffering the stream
+  headers.set("X-Accel-Buffering", "no");
+  return new Response(body, { headers });
+}
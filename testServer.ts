@@ -1,6 +1,6 @@
 import { Server } from "https://deno.land/x/socket_io@0.2.1/mod.ts";
 
-import { XebecServer } from "./mod.ts";
+import { XebecServer, logger } from "./mod.ts";
 
 // Use case
 const app = new XebecServer();
@@ -9,12 +9,12 @@ app.OPTIONS("*", (_) => {
   return new Response("Wildcard", { status: 200 });
 });
 
-// Middleware example
-app.use(async (req, next) => {
-  console.log(`Incoming request: ${req.url}`);
-  const response = await next(); // Proceed to next middleware or route handler
+// Access log with request IDs
+app.use(logger({ format: "pretty" }));
+
+// Response hook example, the headers can be changed even when the response's own are immutable
+app.onResponse((_req, response) => {
   response.headers.set("X-Served-By", "XebecServer");
-  return response;
 });
 
 app.GET("/", (_) => {
@@ -35,40 +35,13 @@ fileServer.GET("/nested", (_) => {
 const MAX_SIZE = 1024 * 1024 * 2; // 2MB
 
 fileServer.POST("/", async (req) => {
-  // Check file size before parsing form
-  const contentLength = req.headers.get('content-length');
-
-  if (!contentLength) {
-    return new Response('No content length found', { status: 400 });
-  }
-
-  if (+contentLength > MAX_SIZE) {
-    return new Response(`File size should be within ${MAX_SIZE} bytes.`, { status: 400 });
-  }
-
-  const form = await req.formData();
-
-  if (!form) {
-    return new Response('No form found', { status: 400 });
-  }
+  // Files are streamed to a temporary directory with sanitized names
+  const [file] = req.files;
 
-  // Get the uploaded file(s)
-  const files = form.getAll('file') as File[];
-
-  if (!files.length) {
+  if (!file) {
     return new Response('No files found', { status: 400 });
   }
 
-  if (files.length > 1) {
-    return new Response('Only one file is allowed', { status: 400 });
-  }
-
-  const file = files[0];
-
-  if (file.size > MAX_SIZE) {
-    return new Response(`File size should be within ${MAX_SIZE} bytes.`, { status: 400 });
-  }
-
   // Create the uploads directory if it doesn't exist
   const uploadDir = './uploads';
   try {
@@ -79,15 +52,20 @@ fileServer.POST("/", async (req) => {
     return new Response('Failed to create upload directory', { status: 500 });
   }
 
-  // Write the file to disk
-  const filePath = `${uploadDir}/${file.name}`;
+  // Move the spooled file, it is removed once the handler returns otherwise
+  const filePath = `${uploadDir}/${file.filename}`;
   try {
-    await Deno.writeFile(filePath, file.stream());
+    await Deno.rename(file.path!, filePath);
     return new Response('File uploaded successfully');
   } catch (err) {
     console.error('Failed to write file:', err);
     return new Response('Failed to upload file', { status: 500 });
   }
+}, {
+  options: {
+    multipart: { maxFileSize: MAX_SIZE, maxFiles: 1 },
+    maxBodySize: MAX_SIZE + 64 * 1024, // room for the multipart framing
+  },
 });
 
 // Fix: Correctly route to "/other/nested"
@@ -0,0 +1,489 @@
+import { WebSocketData } from "./websocket.ts";
+import type { ServeInfo } from "./types.ts";
+
+/**
+ * Anything that handles requests like `XebecServer.handler()`
+ */
+export interface TestTarget {
+  handler(req: Request, info?: ServeInfo): Promise<Response>;
+}
+
+/**
+ * A Server-Sent Event received by `TestClient.sse()`
+ */
+export interface ReceivedEvent {
+  event: string;
+  data: string;
+  id?: string;
+  retry?: number;
+}
+
+// Reports the first place where the actual value does not have the expected shape
+function mismatch(actual: unknown, expected: unknown, path: string): string | null {
+  if (expected instanceof RegExp) {
+    return typeof actual === "string" && expected.test(actual) ? null : `${path}: ${JSON.stringify(actual)} does not match ${expected}`;
+  }
+  if (Array.isArray(expected)) {
+    if (!Array.isArray(actual) || actual.length !== expected.length) {
+      return `${path}: expected an array of ${expected.length} items, received ${JSON.stringify(actual)}`;
+    }
+    for (let index = 0; index < expected.length; index++) {
+      const found = mismatch(actual[index], expected[index], `${path}[${index}]`);
+      if (found) return found;
+    }
+    return null;
+  }
+  if (typeof expected === "object" && expected !== null) {
+    if (typeof actual !== "object" || actual === null) {
+      return `${path}: expected an object, received ${JSON.stringify(actual)}`;
+    }
+    for (const [key, value] of Object.entries(expected)) {
+      const found = mismatch((actual as Record<string, unknown>)[key], value, `${path}.${key}`);
+      if (found) return found;
+    }
+    return null;
+  }
+  return Object.is(actual, expected) ? null : `${path}: expected ${JSON.stringify(expected)}, received ${JSON.stringify(actual)}`;
+}
+
+/**
+ * A buffered response with expectation helpers. Expectations throw on failure and return
+ * the response, so they can be chained
+ */
+export class TestResponse {
+  constructor(
+    /** The response returned by the server, its body already read */
+    readonly raw: Response,
+    /** The body bytes */
+    readonly body: Uint8Array,
+  ) {}
+
+  get status(): number {
+    return this.raw.status;
+  }
+
+  get headers(): Headers {
+    return this.raw.headers;
+  }
+
+  get text(): string {
+    return new TextDecoder().decode(this.body);
+  }
+
+  json<T = unknown>(): T {
+    return JSON.parse(this.text);
+  }
+
+  expectStatus(status: number): this {
+    if (this.status !== status) {
+      throw new Error(`Expected status ${status}, received ${this.status}: ${this.text.slice(0, 200)}`);
+    }
+    return this;
+  }
+
+  /**
+   * Expects a header value, a value matching a pattern, or with null the absence of the header
+   */
+  expectHeader(name: string, expected: string | RegExp | null): this {
+    const value = this.headers.get(name);
+    const matches = expected instanceof RegExp ? value !== null && expected.test(value) : value === expected;
+    if (!matches) {
+      throw new Error(`Expected header ${name} to be ${expected}, received ${value}`);
+    }
+    return this;
+  }
+
+  /**
+   * Expects the JSON body to have a shape. Objects may have more keys than expected,
+   * arrays must have the same length and patterns match strings
+   */
+  expectJson(shape: unknown): this {
+    const found = mismatch(this.json(), shape, "body");
+    if (found) throw new Error(`JSON body mismatch at ${found}`);
+    return this;
+  }
+}
+
+/**
+ * A request being built. Await it, or call `send()`, to run it
+ */
+export class TestRequest implements PromiseLike<TestResponse> {
+  private readonly url: URL;
+  private readonly requestHeaders = new Headers();
+  private requestBody: BodyInit | null = null;
+  private remoteIp: string;
+  private abortSignal?: AbortSignal;
+
+  constructor(private readonly client: TestClient, private readonly method: string, path: string) {
+    this.url = new URL(path, "http://localhost");
+    this.remoteIp = client.ip;
+  }
+
+  /** Adds query parameters */
+  query(params: Record<string, string | number | boolean>): this {
+    for (const [key, value] of Object.entries(params)) this.url.searchParams.append(key, String(value));
+    return this;
+  }
+
+  header(name: string, value: string): this {
+    this.requestHeaders.set(name, value);
+    return this;
+  }
+
+  /** Sends a JSON body */
+  json(body: unknown): this {
+    this.requestHeaders.set("Content-Type", "application/json");
+    this.requestBody = JSON.stringify(body);
+    return this;
+  }
+
+  /** Sends a URL-encoded form body */
+  form(fields: Record<string, string>): this {
+    this.requestBody = new URLSearchParams(fields);
+    return this;
+  }
+
+  /** Sends a raw body, e.g. `FormData` or a stream */
+  body(body: BodyInit, contentType?: string): this {
+    if (contentType) this.requestHeaders.set("Content-Type", contentType);
+    this.requestBody = body;
+    return this;
+  }
+
+  /** The client IP address seen by the server */
+  get clientIp(): string {
+    return this.remoteIp;
+  }
+
+  /** Sets the client IP address seen by the server */
+  ip(address: string): this {
+    this.remoteIp = address;
+    return this;
+  }
+
+  /** Aborts the request with the signal, as if the client disconnected */
+  signal(signal: AbortSignal): this {
+    this.abortSignal = signal;
+    return this;
+  }
+
+  /** Builds the request without sending it */
+  build(): Request {
+    const headers = new Headers(this.requestHeaders);
+    const cookies = [...this.client.cookies].map(([name, value]) => `${name}=${encodeURIComponent(value)}`);
+    if (cookies.length) {
+      headers.set("Cookie", [headers.get("Cookie"), ...cookies].filter(Boolean).join("; "));
+    }
+    return new Request(this.url, {
+      method: this.method,
+      headers,
+      body: this.requestBody,
+      signal: this.abortSignal,
+    });
+  }
+
+  /** Runs the request and reads the whole response body */
+  async send(): Promise<TestResponse> {
+    const response = await this.client.dispatch(this.build(), this.remoteIp);
+    return new TestResponse(response, new Uint8Array(await response.arrayBuffer()));
+  }
+
+  then<TResult1 = TestResponse, TResult2 = never>(
+    onfulfilled?: ((value: TestResponse) => TResult1 | PromiseLike<TResult1>) | null,
+    onrejected?: ((reason: unknown) => TResult2 | PromiseLike<TResult2>) | null,
+  ): Promise<TResult1 | TResult2> {
+    return this.send().then(onfulfilled, onrejected);
+  }
+}
+
+/**
+ * An open Server-Sent Events stream
+ */
+export class TestEventStream {
+  private readonly reader: ReadableStreamDefaultReader<string>;
+  private buffer = "";
+
+  constructor(
+    /** The response headers and status */
+    readonly response: Response,
+  ) {
+    this.reader = response.body!.pipeThrough(new TextDecoderStream()).getReader();
+  }
+
+  /**
+   * Waits for the next event
+   * @returns The event, or null once the stream ended
+   */
+  async next(): Promise<ReceivedEvent | null> {
+    while (true) {
+      const end = /\r?\n\r?\n/.exec(this.buffer);
+      if (end) {
+        const block = this.buffer.slice(0, end.index);
+        this.buffer = this.buffer.slice(end.index + end[0].length);
+        const event = this.parse(block);
+        if (event) return event;
+        continue;
+      }
+
+      const { done, value } = await this.reader.read();
+      if (done) return null;
+      this.buffer += value;
+    }
+  }
+
+  /** Disconnects, which aborts the stream on the server */
+  close(): Promise<void> {
+    return this.reader.cancel();
+  }
+
+  // Returns null for blocks that only hold comments
+  private parse(block: string): ReceivedEvent | null {
+    const event: ReceivedEvent = { event: "message", data: "" };
+    const data: string[] = [];
+    let dispatch = false;
+    for (const line of block.split(/\r?\n/)) {
+      if (line.startsWith(":")) continue;
+      const separator = line.indexOf(":");
+      const field = separator === -1 ? line : line.slice(0, separator);
+      const value = separator === -1 ? "" : line.slice(separator + 1).replace(/^ /, "");
+      dispatch = true;
+      if (field === "event") event.event = value;
+      else if (field === "data") data.push(value);
+      else if (field === "id") event.id = value;
+      else if (field === "retry") event.retry = Number(value);
+    }
+    event.data = data.join("\n");
+    return dispatch ? event : null;
+  }
+}
+
+type SocketEvent = Event | MessageEvent | CloseEvent;
+
+/**
+ * One end of an in-memory WebSocket connection. Implements the parts of `WebSocket` the server uses
+ */
+class MemorySocket extends EventTarget {
+  readyState: number = WebSocket.CONNECTING;
+  bufferedAmount = 0;
+  protocol = "";
+  binaryType: BinaryType = "arraybuffer";
+  peer!: MemorySocket;
+  onopen: ((event: Event) => void) | null = null;
+  onmessage: ((event: MessageEvent) => void) | null = null;
+  onclose: ((event: CloseEvent) => void) | null = null;
+  onerror: ((event: Event) => void) | null = null;
+
+  send(data: WebSocketData) {
+    if (this.readyState !== WebSocket.OPEN) {
+      throw new DOMException("WebSocket is not open", "InvalidStateError");
+    }
+    setTimeout(() => this.peer.emit(new MessageEvent("message", { data })), 0);
+  }
+
+  close(code = 1000, reason = "") {
+    if (this.readyState >= WebSocket.CLOSING) return;
+    this.readyState = this.peer.readyState = WebSocket.CLOSING;
+    setTimeout(() => {
+      for (const socket of [this, this.peer]) {
+        socket.readyState = WebSocket.CLOSED;
+        socket.emit(new CloseEvent("close", { code, reason, wasClean: true }));
+      }
+    }, 0);
+  }
+
+  open() {
+    this.readyState = WebSocket.OPEN;
+    this.emit(new Event("open"));
+  }
+
+  private emit(event: SocketEvent) {
+    this.dispatchEvent(event);
+    if (event.type === "open") this.onopen?.(event);
+    else if (event.type === "message") this.onmessage?.(event as MessageEvent);
+    else if (event.type === "close") this.onclose?.(event as CloseEvent);
+  }
+}
+
+/**
+ * The client end of a WebSocket opened by `TestClient.websocket()`
+ */
+export class TestSocket {
+  private readonly queue: unknown[] = [];
+  private readonly waiting: ((message: unknown) => void)[] = [];
+  /** Resolves with the close code and reason once the connection closed */
+  readonly closed: Promise<{ code: number; reason: string }>;
+
+  constructor(private readonly socket: MemorySocket) {
+    socket.onmessage = (event) => {
+      const waiter = this.waiting.shift();
+      if (waiter) waiter(event.data);
+      else this.queue.push(event.data);
+    };
+    this.closed = new Promise((resolve) => {
+      socket.addEventListener("close", (event) => {
+        const { code, reason } = event as CloseEvent;
+        resolve({ code, reason });
+      });
+    });
+  }
+
+  /** The subprotocol selected by the server */
+  get protocol(): string {
+    return this.socket.protocol;
+  }
+
+  send(data: WebSocketData): void {
+    this.socket.send(data);
+  }
+
+  /** Waits for the next message from the server */
+  next<T = string>(): Promise<T> {
+    if (this.queue.length) return Promise.resolve(this.queue.shift() as T);
+    return new Promise((resolve) => this.waiting.push(resolve as (message: unknown) => void));
+  }
+
+  close(code?: number, reason?: string): Promise<{ code: number; reason: string }> {
+    this.socket.close(code, reason);
+    return this.closed;
+  }
+}
+
+/**
+ * Sends requests straight to a server's handler, without binding a port.
+ * Cookies set by responses are kept and sent with later requests.
+ */
+export class TestClient {
+  /** The cookie jar */
+  readonly cookies = new Map<string, string>();
+  /** Client IP address used unless a request sets its own */
+  ip = "127.0.0.1";
+
+  constructor(private readonly app: TestTarget) {}
+
+  get(path: string) {
+    return this.request("GET", path);
+  }
+
+  post(path: string) {
+    return this.request("POST", path);
+  }
+
+  put(path: string) {
+    return this.request("PUT", path);
+  }
+
+  patch(path: string) {
+    return this.request("PATCH", path);
+  }
+
+  delete(path: string) {
+    return this.request("DELETE", path);
+  }
+
+  head(path: string) {
+    return this.request("HEAD", path);
+  }
+
+  options(path: string) {
+    return this.request("OPTIONS", path);
+  }
+
+  request(method: string, path: string): TestRequest {
+    return new TestRequest(this, method, path);
+  }
+
+  /**
+   * Opens a Server-Sent Events stream
+   * @param path - The path, or a prepared request to add headers, an IP or a signal
+   * @throws If the server does not answer with an event stream
+   */
+  async sse(path: string | TestRequest): Promise<TestEventStream> {
+    const request = typeof path === "string" ? this.get(path) : path;
+    const response = await this.dispatch(request.header("Accept", "text/event-stream").build(), request.clientIp);
+    if (!response.headers.get("Content-Type")?.startsWith("text/event-stream") || !response.body) {
+      await response.body?.cancel();
+      throw new Error(`Expected an event stream, received status ${response.status}`);
+    }
+    return new TestEventStream(response);
+  }
+
+  /**
+   * Opens an in-memory WebSocket connection to a `WS()` route
+   * @param path - The path, or a prepared request to add headers or an IP
+   * @param protocols - Subprotocols to offer
+   * @throws If the server does not upgrade the connection
+   */
+  async websocket(path: string | TestRequest, protocols: string[] = []): Promise<TestSocket> {
+    const prepared = (typeof path === "string" ? this.get(path) : path)
+      .header("Upgrade", "websocket")
+      .header("Connection", "Upgrade")
+      .header("Sec-WebSocket-Version", "13")
+      .header("Sec-WebSocket-Key", btoa(String.fromCharCode(...crypto.getRandomValues(new Uint8Array(16)))));
+    if (protocols.length) prepared.header("Sec-WebSocket-Protocol", protocols.join(", "));
+    const request = prepared.build();
+
+    let client: MemorySocket | null = null;
+    let server: MemorySocket | null = null;
+    const upgrade = (protocol?: string) => {
+      client = new MemorySocket();
+      server = new MemorySocket();
+      client.peer = server;
+      server.peer = client;
+      client.protocol = server.protocol = protocol ?? "";
+      // Responses cannot be created with status 101, so the status is shadowed like Deno's upgrade response
+      const response = new Response(null);
+      Object.defineProperty(response, "status", { value: 101 });
+      return { socket: server as unknown as WebSocket, response };
+    };
+
+    const response = await this.dispatch(request, prepared.clientIp, upgrade);
+    if (!client || !server || response.status !== 101) {
+      await response.body?.cancel();
+      throw new Error(`WebSocket upgrade failed with status ${response.status}`);
+    }
+
+    const socket = new TestSocket(client);
+    (server as MemorySocket).open();
+    (client as MemorySocket).open();
+    return socket;
+  }
+
+  /** Runs a request through the server and stores the cookies it sets */
+  async dispatch(request: Request, ip: string, upgradeWebSocket?: ServeInfo["upgradeWebSocket"]): Promise<Response> {
+    const info = {
+      remoteAddr: { transport: "tcp", hostname: ip, port: 0 },
+      completed: Promise.resolve(),
+      upgradeWebSocket,
+    } as ServeInfo;
+    const response = await this.app.handler(request, info);
+
+    for (const cookie of response.headers.getSetCookie()) {
+      const [pair, ...attributes] = cookie.split(";").map((part) => part.trim());
+      const separator = pair.indexOf("=");
+      const name = pair.slice(0, separator);
+      const expired = attributes.some((attribute) =>
+        /^max-age=(0|-\d+)$/i.test(attribute) ||
+        (/^expires=/i.test(attribute) && Date.parse(attribute.slice(8)) <= Date.now())
+      );
+      if (expired) {
+        this.cookies.delete(name);
+      } else {
+        this.cookies.set(name, decodeURIComponent(pair.slice(separator + 1)));
+      }
+    }
+    return response;
+  }
+}
+
+/**
+ * Creates a client that sends requests to the server in process
+ * @example
+ * ```typescript
+ * const client = testClient(app);
+ * (await client.post("/login").json({ user: "ada" })).expectStatus(200);
+ * (await client.get("/me").query({ fields: "name" })).expectJson({ name: "ada" });
+ * ```
+ */
+export function testClient(app: TestTarget): TestClient {
+  return new TestClient(app);
+}
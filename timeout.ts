@@ -0,0 +1,90 @@
+import { GatewayTimeout, HttpError, ServiceUnavailable } from "./errors.ts";
+
+/**
+ * Why a request was abandoned before it was answered: its deadline passed, the client went away,
+ * or the server shut down
+ */
+export type AbandonReason = "timeout" | "disconnect" | "shutdown";
+
+/**
+ * Details of an abandoned request, passed to `onAbandon()` hooks
+ */
+export interface AbandonInfo {
+  /** Why the request was abandoned */
+  reason: AbandonReason;
+  /** Milliseconds since the request arrived */
+  elapsed: number;
+  /** The request timeout in milliseconds, if one applied */
+  timeout?: number;
+}
+
+/**
+ * The deadline of a request, shared with the servers it is mounted on. The timeout can be changed
+ * until it expires, e.g. once the matching route is known, and always counts from the request's arrival.
+ */
+export class RequestDeadline {
+  /** Time the request arrived, in milliseconds since the epoch */
+  readonly start = Date.now();
+  /** Maximum time in milliseconds to answer the request */
+  timeout?: number;
+  /** Whether the request is proxied to an upstream server, which answers timeouts with 504 instead of 503 */
+  upstream = false;
+  /** The error answering the request, once the deadline has passed */
+  error?: HttpError;
+
+  private readonly controller = new AbortController();
+  private readonly expired: Promise<never>;
+  private expire!: (error: HttpError) => void;
+  private timer?: ReturnType<typeof setTimeout>;
+
+  constructor() {
+    this.expired = new Promise<never>((_resolve, reject) => {
+      this.expire = reject;
+    });
+    // Nobody may be racing the deadline when it passes
+    this.expired.catch(() => {});
+  }
+
+  /** Aborts once the deadline has passed, with the timeout error as reason */
+  get signal(): AbortSignal {
+    return this.controller.signal;
+  }
+
+  /**
+   * Sets the timeout, counted from the request's arrival. Does nothing once the deadline has passed
+   * @param timeout - Milliseconds, or undefined or 0 for no deadline
+   */
+  arm(timeout: number | undefined): void {
+    if (this.error) return;
+    clearTimeout(this.timer);
+    this.timeout = timeout || undefined;
+    if (!this.timeout) return;
+
+    this.timer = setTimeout(() => {
+      this.error = this.upstream
+        ? new GatewayTimeout("Upstream server did not answer in time")
+        : new ServiceUnavailable("Request timed out");
+      this.controller.abort(this.error);
+      this.expire(this.error);
+    }, Math.max(this.start + this.timeout - Date.now(), 0));
+  }
+
+  /**
+   * Waits for work to finish within the deadline. Once the deadline has passed, the work's late
+   * result is discarded: response bodies are cancelled and errors are ignored.
+   * @throws The timeout error when the deadline passes first
+   */
+  race<T>(work: Promise<T>): Promise<T> {
+    return Promise.race([work, this.expired]).catch((error) => {
+      if (error === this.error) {
+        work.then((late) => late instanceof Response ? late.body?.cancel().catch(() => {}) : undefined, () => {});
+      }
+      throw error;
+    });
+  }
+
+  /** Stops the timer once the request is answered */
+  dispose(): void {
+    clearTimeout(this.timer);
+  }
+}
@@ -1,3 +1,15 @@
+import type { Infer, Schema } from "./schema.ts";
+import type { MultipartOptions, UploadedFile } from "./multipart.ts";
+import type { BodySizeLimit } from "./body.ts";
+import type { Session } from "./session.ts";
+import type { AuthInfo } from "./auth.ts";
+import type { TrustProxy } from "./proxy.ts";
+import type { AbandonInfo } from "./timeout.ts";
+import { parseCookies } from "./cookie.ts";
+import { createSSEResponse, SSEHandler, SSEOptions } from "./sse.ts";
+import { HttpError, HttpErrorOptions } from "./errors.ts";
+import { defaultSerializers, negotiate, NegotiateOptions, Serializer } from "./negotiate.ts";
+
 export type Config = "method" | "path" | "handler";
 
 /**
@@ -9,6 +21,38 @@ export class Req extends Request {
   params: Record<string, string>;
   /** Query parameters from the URL */
   query: Record<string, string>;
+  /** Files received by a route with the `multipart` option */
+  files: UploadedFile[] = [];
+  /** The session, when the `session()` middleware is used */
+  session?: Session;
+  /** The authenticated client, set by `jwt()`, `bearerAuth()` or `basicAuth()` */
+  auth?: AuthInfo;
+  /** Returns the CSRF token to embed in forms or pages, set by `csrf()` */
+  csrfToken?: () => string;
+  /** Request ID, assigned by `logger()` or in debug mode */
+  id?: string;
+  /** Path the server is mounted at, e.g. `/users/42` for a server mounted at `/users/:uid`. Empty at the root */
+  baseUrl = "";
+  /** URL as received, before mount prefixes were removed from `url` */
+  originalUrl: string = this.url;
+  /** Pattern of the matched route including mount prefixes, e.g. `/users/:id`. Set once a route matched */
+  route?: string;
+  /** Address of the client connection, when served by `listen()` */
+  remoteAddr?: Deno.NetAddr;
+  /** Client IP address, taken from proxy headers as far as `trustProxy` allows. Empty when unknown */
+  ip = "";
+  /** Forwarded addresses from the client to the closest trusted proxy, empty unless a proxy is trusted */
+  ips: string[] = [];
+  /** "http" or "https" as used by the client */
+  protocol = "http";
+  /** Host requested by the client, with port when not the default */
+  host = "";
+  /** Whether the client used HTTPS */
+  secure = false;
+  /** Middleware and routes the request passed through, recorded in debug mode */
+  trace?: string[];
+  /** Serializers used by `send()`, the built-in ones and those registered on the server */
+  serializers: Record<string, Serializer> = defaultSerializers;
 
   constructor(
     input: RequestInfo,
@@ -20,13 +64,83 @@ export class Req extends Request {
     this.params = params;
     this.query = query;
   }
+
+  /**
+   * Serializes data in the format preferred by the `Accept` header, answering 406 when none is acceptable
+   * @param data - The data to serialize
+   * @param options - The formats to offer, status and headers
+   */
+  send(data: unknown, options?: Omit<NegotiateOptions, "serializers">): Promise<Response> {
+    return negotiate(this, data, { ...options, serializers: this.serializers });
+  }
+
+  /** Cookies sent with the request */
+  get cookies(): Record<string, string> {
+    return parseCookies(this.headers.get("cookie"));
+  }
 }
 
 /**
  * A handler function that processes an HTTP request and returns a Response.
  * Can be synchronous or asynchronous.
  */
-export type Handler = (req: Req) => Promise<Response> | Response;
+export type Handler<R = Req> = (req: R) => Promise<Response> | Response;
+
+/**
+ * Schemas for the parts of a request that should be validated before the handler runs.
+ * Header names must be lowercase.
+ */
+export interface RouteSchema {
+  /** Schema for the route parameters */
+  params?: Schema;
+  /** Schema for the query parameters */
+  query?: Schema;
+  /** Schema for the request headers */
+  headers?: Schema;
+  /** Schema for the parsed JSON, URL-encoded or multipart body */
+  body?: Schema;
+}
+
+type Simplify<T> = { [K in keyof T]: T[K] } & unknown;
+
+type SegmentParams<S extends string> =
+  S extends `:${infer Name}(${string})?` ? { [K in Name]?: string }
+  : S extends `:${infer Name}(${string})` ? { [K in Name]: string }
+  : S extends `:${infer Name}?` ? { [K in Name]?: string }
+  : S extends `:${infer Name}` ? { [K in Name]: string }
+  : S extends `*${infer Name}` ? { [K in Name extends "" ? "*" : Name]: string }
+  : Record<never, never>;
+
+type PathSegmentParams<P extends string> = P extends `${infer Head}/${infer Tail}`
+  ? SegmentParams<Head> & PathSegmentParams<Tail>
+  : SegmentParams<P>;
+
+/**
+ * The route parameters declared by a path pattern.
+ * @example
+ * ```typescript
+ * type Params = PathParams<"/user/:id/files/*path">; // { id: string; path: string }
+ * ```
+ */
+export type PathParams<P extends string> = string extends P
+  ? Record<string, string>
+  : Simplify<PathSegmentParams<P>>;
+
+type SchemaOutput<S, Fallback> = [S] extends [Schema] ? Infer<S> : Fallback;
+
+/**
+ * A request whose `params`, `query` and `body` are typed by the route schema.
+ * Without a params schema, `params` are typed from the route path.
+ * Without a body schema, `body` is the raw body stream.
+ */
+export type TypedReq<
+  S extends RouteSchema = RouteSchema,
+  P = Record<string, string>,
+> = Omit<Req, "params" | "query" | "body"> & {
+  params: SchemaOutput<S["params"], P>;
+  query: SchemaOutput<S["query"], Record<string, string>>;
+  body: SchemaOutput<S["body"], Request["body"]>;
+};
 
 /**
  * Middleware function that can process requests before they reach route handlers.
@@ -37,43 +151,182 @@ export type Middleware = (
   next: () => Promise<Response> | Response
 ) => Promise<Response> | Response;
 
+/**
+ * Hook run for every response of a server, once middleware and routes are done.
+ * Changes to `headers` are applied to the response, even when its own headers are immutable.
+ */
+export type ResponseHook = (
+  req: Req,
+  response: { readonly status: number; readonly headers: Headers }
+) => void | Promise<void>;
+
+/**
+ * Hook run for requests abandoned before a response was returned, because `requestTimeout`
+ * passed or the client disconnected
+ */
+export type AbandonHook = (req: Req, info: AbandonInfo) => void | Promise<void>;
+
 /**
  * Configuration options for the XebecServer
  */
 export interface ServerOptions {
-  /** Enable detailed request logging */
+  /** Log every request with its request ID and the middleware and routes it passed through, and show stack traces in error responses */
   debug?: boolean;
-  /** Custom error handler for uncaught exceptions */
+  /** Custom error handler for uncaught exceptions. By default they are rendered as `application/problem+json` */
   errorHandler?: (error: Error, req: Req) => Response | Promise<Response>;
-  /** Maximum request body size in bytes */
-  maxBodySize?: number;
-  /** Default response headers */
+  /** Answers requests without a route, instead of a 404 problem response */
+  notFoundHandler?: (req: Req) => Response | Promise<Response>;
+  /** Maximum request body size in bytes, enforced while the body is read. Can be set per content type */
+  maxBodySize?: BodySizeLimit;
+  /** Maximum time in milliseconds to receive the request body before answering 408 */
+  bodyTimeout?: number;
+  /**
+   * Maximum time in milliseconds to answer a request before answering 503, or 504 for `upstream` routes.
+   * `req.signal` aborts when it passes, and the handler's late result is discarded
+   */
+  requestTimeout?: number;
+  /** Headers added to every response, including errors, unless the response or the route sets them */
   defaultHeaders?: Record<string, string>;
+  /**
+   * Proxies trusted to report the client in `Forwarded` and `X-Forwarded-*` headers, used for
+   * `req.ip`, `req.protocol` and `req.host`. A hop count, addresses or CIDR ranges, or a function (default: none)
+   */
+  trustProxy?: TrustProxy;
+}
+
+/**
+ * Options for starting the server with `XebecServer.listen()`
+ */
+export interface ListenOptions {
+  /** Port to listen on. Use 0 to pick a free port (default: 8000) */
+  port?: number;
+  /** Hostname to bind to (default: "0.0.0.0") */
+  hostname?: string;
+  /** PEM encoded TLS certificate. Enables HTTPS together with `key` */
+  cert?: string;
+  /** PEM encoded TLS private key. Enables HTTPS together with `cert` */
+  key?: string;
+  /** Close the server gracefully on SIGINT/SIGTERM, then exit the process (default: true) */
+  handleSignals?: boolean;
+  /**
+   * Maximum time in milliseconds `close()` waits for in-flight requests (default: 10000).
+   * Requests still running afterwards are aborted, and their streams and WebSockets closed
+   */
+  shutdownTimeout?: number;
+  /** Called once the server is accepting connections */
+  onListen?: (addr: Deno.NetAddr) => void;
+  /** Called after the server has stopped and every in-flight request finished */
+  onClose?: () => void;
+}
+
+/**
+ * Connection details of a request, passed to `XebecServer.handler()` by `listen()` and `testClient()`
+ */
+export interface ServeInfo extends Deno.ServeHandlerInfo {
+  /** Aborts when the server stops waiting for in-flight requests on shutdown */
+  shutdownSignal?: AbortSignal;
+  /** Upgrades WebSockets in memory instead of through Deno, used by `testClient()` */
+  upgradeWebSocket?: (protocol?: string) => { socket: WebSocket; response: Response };
+}
+
+/**
+ * Handle returned by `XebecServer.listen()` for a running server
+ */
+export interface ServerHandle {
+  /** The address the server is bound to */
+  addr: Deno.NetAddr;
+  /** Resolves when the server has stopped */
+  finished: Promise<void>;
+  /**
+   * Stops accepting connections and waits for in-flight requests to finish. After `shutdownTimeout`,
+   * `req.signal` of the remaining requests aborts and their streams and WebSockets are closed
+   */
+  close(): Promise<void>;
+}
+
+/**
+ * Documentation of a route, used by the OpenAPI generator
+ */
+export interface RouteDocs {
+  /** Short summary of the operation */
+  summary?: string;
+  /** Longer description, CommonMark is allowed */
+  description?: string;
+  /** Tags grouping the operation */
+  tags?: string[];
+  /** Unique operation name */
+  operationId?: string;
+  /** Marks the operation as deprecated */
+  deprecated?: boolean;
+  /** Documented responses by status code */
+  responses?: Record<string, { description: string; schema?: Schema; contentType?: string }>;
+  /** Leave the route out of the OpenAPI document */
+  hidden?: boolean;
+}
+
+/**
+ * A route as listed by `XebecServer.routes()`
+ */
+export interface RouteInfo {
+  /** HTTP method, or "WS" for WebSocket routes */
+  method: string;
+  /** Pattern including the prefixes of mounting servers, e.g. `/orgs/:org/users/:id` */
+  path: string;
+  /** Names of the path parameters */
+  params: string[];
+  /** The route configuration */
+  config: Omit<RouteConfig, Config>;
 }
 
 /**
  * Route configuration object
  */
-export interface RouteConfig {
+export interface RouteConfig<S extends RouteSchema = RouteSchema> extends RouteDocs {
   /** HTTP method */
   method: string;
   /** URL pattern with optional parameters */
   path: string;
   /** Request handler function */
-  handler: Handler;
+  handler: Handler<TypedReq<S>>;
   /** Optional middleware specific to this route */
   middleware?: Middleware[];
+  /** Optional schemas validating the request. Failures are answered with 400 (params, query, headers) or 422 (body) */
+  schema?: S;
+  /** Headers added to every response of this route, unless the response sets them. Take precedence over `defaultHeaders` */
+  headers?: Record<string, string>;
+  /** Handles errors thrown by this route and its middleware, before the server's `errorHandler` */
+  errorHandler?: (error: Error, req: Req) => Response | Promise<Response>;
   /** Optional route-specific options */
   options?: {
     /** Whether to parse JSON bodies */
     parseJson?: boolean;
     /** Whether to parse URL-encoded bodies */
     parseUrlEncoded?: boolean;
+    /** Overrides the server `maxBodySize` for this route, in bytes or per content type */
+    maxBodySize?: BodySizeLimit;
+    /** Overrides the server `bodyTimeout` for this route */
+    bodyTimeout?: number;
+    /** Overrides the server `requestTimeout` for this route, counted from the request's arrival */
+    requestTimeout?: number;
+    /** The route proxies an upstream server, so timeouts are answered with 504 Gateway Timeout */
+    upstream?: boolean;
+    /** Stream `multipart/form-data` bodies into `req.files` and `req.body` with the given limits */
+    multipart?: MultipartOptions;
     /** Custom validation function */
     validate?: (req: Req) => boolean | Promise<boolean>;
   };
 }
 
+/**
+ * Settings shared by the routes of a group, see `XebecServer.group()`.
+ * Middleware runs before the routes' own, headers, tags and options are merged with the routes' own
+ * (which take precedence), and the `validate` functions of the group and the route both have to pass.
+ */
+export type GroupConfig = Pick<
+  RouteConfig,
+  "middleware" | "options" | "headers" | "errorHandler" | "tags" | "deprecated" | "hidden"
+>;
+
 /**
  * Response helper functions for common HTTP responses
  */
@@ -103,6 +356,24 @@ export const ResponseHelper = {
     return ResponseHelper.json({ error: message }, status, headers);
   },
 
+  /** Creates an `application/problem+json` error response (RFC 9457) */
+  problem: (status: number, detail?: string, options?: HttpErrorOptions) => {
+    return new HttpError(status, detail, options).toResponse();
+  },
+
+  /**
+   * Creates a Server-Sent Events response. The stream closes when the handler returns,
+   * unless it is subscribed to a channel
+   */
+  sse: (handler?: SSEHandler, options?: SSEOptions) => {
+    return createSSEResponse(handler, options);
+  },
+
+  /** Creates a response in the format preferred by the request's `Accept` header, or 406 */
+  negotiate: (req: Request, data: unknown, options?: NegotiateOptions) => {
+    return negotiate(req, data, { serializers: req instanceof Req ? req.serializers : undefined, ...options });
+  },
+
   /** Creates a redirect response */
   redirect: (url: string, status = 302) => {
     return new Response(null, {
@@ -110,4 +381,19 @@ export const ResponseHelper = {
       headers: { Location: url },
     });
   },
+
+  /**
+   * Copies a response with headers changed by `update`, which also works on immutable headers.
+   * Switching protocols responses (WebSocket upgrades) cannot be rebuilt and are returned as they are
+   */
+  withHeaders: async (response: Response, update: (headers: Headers) => void | Promise<void>) => {
+    if (response.status === 101) return response;
+    const headers = new Headers(response.headers);
+    await update(headers);
+    return new Response(response.body, {
+      status: response.status,
+      statusText: response.statusText,
+      headers,
+    });
+  },
 }; 
\ No newline at end of file
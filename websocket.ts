@@ -0,0 +1,191 @@
+import { Req, Middleware, ServeInfo } from "./types.ts";
+
+/** Data that can be sent over a WebSocket */
+export type WebSocketData = string | ArrayBufferLike | Blob | ArrayBufferView;
+
+/**
+ * Lifecycle handlers of a WebSocket route
+ */
+export interface WebSocketHandlers<P = Record<string, string>> {
+  /** Called once the connection is open */
+  onOpen?: (ws: XebecSocket<P>) => void | Promise<void>;
+  /** Called for every message received */
+  onMessage?: (ws: XebecSocket<P>, message: string | ArrayBuffer | Blob) => void | Promise<void>;
+  /** Called when the connection closed, for whatever reason */
+  onClose?: (ws: XebecSocket<P>, code: number, reason: string) => void | Promise<void>;
+  /** Called when the connection failed or a handler threw */
+  onError?: (ws: XebecSocket<P>, error: unknown) => void | Promise<void>;
+}
+
+/**
+ * Configuration of a WebSocket route
+ */
+export interface WebSocketConfig {
+  /** Middleware run before the upgrade, e.g. for authentication */
+  middleware?: Middleware[];
+  /** Supported subprotocols, in order of preference. The first one offered by the client is selected */
+  protocols?: string[];
+  /** Seconds without a pong after a ping before the connection is closed, 0 disables pings (default: 30) */
+  idleTimeout?: number;
+  /** Bytes that may queue up on a socket before further sends are dropped (default: 1MB) */
+  maxBufferedAmount?: number;
+}
+
+/**
+ * Subscriptions of sockets to topics
+ */
+export class TopicRegistry {
+  private readonly topics = new Map<string, Set<XebecSocket<unknown>>>();
+
+  subscribe(topic: string, ws: XebecSocket<unknown>): void {
+    let subscribers = this.topics.get(topic);
+    if (!subscribers) {
+      subscribers = new Set();
+      this.topics.set(topic, subscribers);
+    }
+    subscribers.add(ws);
+  }
+
+  unsubscribe(topic: string, ws: XebecSocket<unknown>): void {
+    const subscribers = this.topics.get(topic);
+    subscribers?.delete(ws);
+    if (subscribers?.size === 0) this.topics.delete(topic);
+  }
+
+  /**
+   * Sends data to every subscriber of a topic
+   * @returns The number of sockets the data was sent to
+   */
+  publish(topic: string, data: WebSocketData, except?: XebecSocket<unknown>): number {
+    let sent = 0;
+    for (const ws of this.topics.get(topic) ?? []) {
+      if (ws !== except && ws.send(data)) sent++;
+    }
+    return sent;
+  }
+
+  /** Number of sockets subscribed to a topic */
+  subscribers(topic: string): number {
+    return this.topics.get(topic)?.size ?? 0;
+  }
+}
+
+/**
+ * A WebSocket connection accepted by a `WS()` route
+ */
+export class XebecSocket<P = Record<string, string>> {
+  /** Topics this socket is subscribed to */
+  readonly topics = new Set<string>();
+  /** Free-form storage for per-connection state */
+  data: Record<string, unknown> = {};
+
+  constructor(
+    /** The underlying WebSocket */
+    readonly raw: WebSocket,
+    /** The upgrade request, after middleware ran */
+    readonly req: Req,
+    /** The selected subprotocol, or an empty string */
+    readonly protocol: string,
+    private readonly registry: TopicRegistry,
+    private readonly maxBufferedAmount: number,
+  ) {}
+
+  /** Route parameters of the upgrade request */
+  get params(): P {
+    return this.req.params as P;
+  }
+
+  /**
+   * Sends data unless the socket is closed or its send buffer is full
+   * @returns Whether the data was queued for sending
+   */
+  send(data: WebSocketData): boolean {
+    if (this.raw.readyState !== WebSocket.OPEN || this.raw.bufferedAmount > this.maxBufferedAmount) {
+      return false;
+    }
+    this.raw.send(data);
+    return true;
+  }
+
+  /** Closes the connection */
+  close(code?: number, reason?: string): void {
+    this.raw.close(code, reason);
+  }
+
+  /** Receives messages published to the topic */
+  subscribe(topic: string): void {
+    this.topics.add(topic);
+    this.registry.subscribe(topic, this);
+  }
+
+  unsubscribe(topic: string): void {
+    this.topics.delete(topic);
+    this.registry.unsubscribe(topic, this);
+  }
+
+  /**
+   * Sends data to every other subscriber of the topic
+   * @returns The number of sockets the data was sent to
+   */
+  publish(topic: string, data: WebSocketData): number {
+    return this.registry.publish(topic, data, this);
+  }
+}
+
+/**
+ * Upgrades a request to a WebSocket and wires the handlers
+ * @param req - The request as seen by middleware and routes
+ * @param original - The request received from Deno.serve, required for the upgrade
+ * @param info - Connection details of the request: its shutdown signal closes the socket, its upgrader replaces Deno's
+ */
+export function upgradeWebSocket<P>(
+  req: Req,
+  original: Request,
+  handlers: WebSocketHandlers<P>,
+  config: WebSocketConfig,
+  registry: TopicRegistry,
+  info?: ServeInfo,
+): Response {
+  const offered = (req.headers.get("sec-websocket-protocol") ?? "")
+    .split(",")
+    .map((protocol) => protocol.trim())
+    .filter(Boolean);
+  const protocol = config.protocols?.find((supported) => offered.includes(supported));
+  if (offered.length > 0 && config.protocols && !protocol) {
+    return new Response("Unsupported WebSocket subprotocol", { status: 400 });
+  }
+
+  const { socket, response } = info?.upgradeWebSocket ? info.upgradeWebSocket(protocol) : Deno.upgradeWebSocket(original, {
+    protocol,
+    idleTimeout: config.idleTimeout ?? 30,
+  });
+  const ws = new XebecSocket<P>(socket, req, protocol ?? "", registry, config.maxBufferedAmount ?? 1024 * 1024);
+
+  // Errors thrown by handlers are reported to onError instead of going unhandled
+  const run = async (callback: () => void | Promise<void>) => {
+    try {
+      await callback();
+    } catch (error) {
+      if (handlers.onError) {
+        await Promise.resolve(handlers.onError(ws, error)).catch(() => {});
+      } else {
+        console.error(error);
+      }
+    }
+  };
+
+  socket.onopen = () => run(() => handlers.onOpen?.(ws));
+  socket.onmessage = (event) => run(() => handlers.onMessage?.(ws, event.data));
+  socket.onerror = (event) => {
+    run(() => handlers.onError?.(ws, event instanceof ErrorEvent ? event.error ?? event.message : event));
+  };
+  const onShutdown = () => socket.close(1001, "Server shutting down");
+  info?.shutdownSignal?.addEventListener("abort", onShutdown, { once: true });
+  socket.onclose = (event) => {
+    info?.shutdownSignal?.removeEventListener("abort", onShutdown);
+    ws.topics.forEach((topic) => registry.unsubscribe(topic, ws as XebecSocket<unknown>));
+    run(() => handlers.onClose?.(ws, event.code, event.reason));
+  };
+
+  return response;
+}